@@ -1,10 +1,44 @@
 // Copyright Sierra
 
-import { AgentConfig } from "./models/AgentConfig";
+import { AgentConfig, getUrlOrigin } from "./models/AgentConfig";
+import { buildBrand, buildChatInterfaceStrings, buildEmbedUrl } from "./models/EmbedUrl";
 import { ChatOptions } from "./models/ChatOptions";
-import { ChatStyleOptions } from "./models/ChatStyle";
+import { ChatStyleFont, ColorScheme, serializeChatStyle } from "./models/ChatStyle";
 import { PersistenceMode } from "./models/PersistenceMode";
-import { ConversationStorage, StorageAdapter } from "./models/ConversationStorage";
+import {
+    ConversationExpiryReason,
+    ConversationStorage,
+    PersistOperation,
+    StorageAdapter,
+} from "./models/ConversationStorage";
+import { StorageEncryption } from "./models/StorageEncryption";
+import { InjectedEmbedConfig } from "./models/BridgeProtocol";
+import { getLayoutDirection, localizeChatOptions, resolveLocale } from "./models/Localization";
+import { ValidationIssue, validateAgentSetup } from "./models/Validation";
+import { AgentTelemetry, TelemetryEventData } from "./models/Telemetry";
+import {
+    SecretManager,
+    SecretProvider,
+    SecretRefreshOptions,
+    withTimeout,
+} from "./models/SecretProvider";
+import {
+    ConversationInfo,
+    ConversationRegistry,
+    DEFAULT_CONVERSATION_ID,
+} from "./models/ConversationRegistry";
+import { Transcript, TranscriptMessage } from "./models/Transcript";
+import {
+    AgentEventEmitter,
+    AgentEventListener,
+    AgentEventMap,
+    AgentEventName,
+} from "./models/AgentEvents";
+import {
+    ConversationCallbacks,
+    SecretExpiryReplyHandler,
+    SecretExpiryResult,
+} from "./models/ConversationTypes";
 
 /**
  * Main agent class that handles Sierra chat functionality
@@ -12,23 +46,66 @@ import { ConversationStorage, StorageAdapter } from "./models/ConversationStorag
 export class Agent {
     private config: AgentConfig;
     private options: ChatOptions;
+    private locale: string;
     private url: string;
-    private storage: ConversationStorage;
+    private injectedConfig: InjectedEmbedConfig;
+    private conversations: ConversationRegistry;
+    private conversationId: string;
+    private variables: Record<string, string>;
+    private secrets?: SecretManager;
+    private secretTimeoutMs: number;
+    private telemetry?: AgentTelemetry;
+    private events = new AgentEventEmitter();
+    private secretExpiryCallbacks: ConversationCallbacks[] = [];
+    private unreadCount = 0;
+    private attachedViewCount = 0;
+    private transcripts = new Map<string, TranscriptMessage[]>();
+    // Conversations whose transcript is restarted by the next message, because they ended
+    private endedConversations = new Set<string>();
+    private isChatVisible = false;
+    private colorScheme: ColorScheme = "light";
 
     /**
      * Create a new Agent instance
      * @param config - Configuration for the agent
      * @param options - Options for the chat
      * @param storageAdapter - Storage adapter for disk persistence (required if persistence is DISK)
+     * @param storageEncryption - Encryption applied to state written through the storage adapter
+     * @param onStorageDecryptionFailure - Invoked when undecryptable persisted state was reset
+     * @param onConversationExpired - Invoked when a stored conversation is cleared by config.expiry
+     * @param conversationId - The conversation to open initially (default: DEFAULT_CONVERSATION_ID)
+     * @param storageWriteDebounceMs - Delay before changes are written through the storage adapter
+     * @param onStoragePersistError - Invoked when writing to the storage adapter fails
+     * @param secretProvider - Supplies secrets for the initial configuration and when they expire
+     * @param secretRefreshOptions - Caching, retry and timeout behavior for secrets
+     * @param telemetry - Receives load timings and error events
      */
     constructor({
         config,
         options,
         storageAdapter,
+        storageEncryption,
+        onStorageDecryptionFailure,
+        onConversationExpired,
+        conversationId,
+        storageWriteDebounceMs,
+        onStoragePersistError,
+        secretProvider,
+        secretRefreshOptions,
+        telemetry,
     }: {
         config: AgentConfig;
         options: ChatOptions;
         storageAdapter?: StorageAdapter;
+        storageEncryption?: StorageEncryption;
+        onStorageDecryptionFailure?: (error: unknown) => void;
+        onConversationExpired?: (reason: ConversationExpiryReason) => void;
+        conversationId?: string;
+        storageWriteDebounceMs?: number;
+        onStoragePersistError?: (error: unknown, operation: PersistOperation) => void;
+        secretProvider?: SecretProvider;
+        secretRefreshOptions?: SecretRefreshOptions;
+        telemetry?: AgentTelemetry;
     }) {
         // Fail fast if DISK mode without adapter
         if (config.persistence === PersistenceMode.DISK && !storageAdapter) {
@@ -40,14 +117,95 @@ export class Agent {
         }
 
         this.config = config;
-        this.storage = new ConversationStorage(
+        this.conversations = new ConversationRegistry(
             config.persistence,
             `sierra_chat_${config.token}`,
-            storageAdapter
+            storageAdapter,
+            {
+                encryption: storageEncryption,
+                onDecryptionFailure: (id, error) => {
+                    if (onStorageDecryptionFailure) {
+                        onStorageDecryptionFailure(error);
+                    } else {
+                        console.warn(
+                            "Failed to decrypt conversation storage, starting fresh:",
+                            error
+                        );
+                    }
+                    this.emit("storageDecryptionFailure", { conversationId: id, error });
+                },
+                expiry: config.expiry,
+                onExpired: (id, reason) => {
+                    onConversationExpired?.(reason);
+                    this.emit("conversationExpired", { conversationId: id, reason });
+                },
+                onLoad: (id, durationMs) =>
+                    this.recordTelemetry({ name: "storageLoad", conversationId: id, durationMs }),
+                writeDebounceMs: storageWriteDebounceMs,
+                onPersistError: onStoragePersistError,
+            }
         );
+        this.conversationId = conversationId ?? DEFAULT_CONVERSATION_ID;
+        this.conversations.open(this.conversationId);
+
+        if (secretProvider) {
+            this.secrets = new SecretManager(secretProvider, secretRefreshOptions);
+        }
+        this.secretTimeoutMs = secretRefreshOptions?.timeoutMs ?? 10000;
+        this.telemetry = telemetry;
+
+        this.locale = resolveLocale(options);
+        this.options = localizeChatOptions(options, this.locale);
+        this.variables = { ...options.conversationOptions?.variables };
+        this.url = buildEmbedUrl(this.config, this.options, this.locale, this.colorScheme);
+        this.injectedConfig = this.buildInjectedConfig(this.options);
+
+        // Surface configuration mistakes during development rather than as a broken chat
+        if (typeof __DEV__ !== "undefined" && __DEV__) {
+            for (const issue of this.validate()) {
+                console.warn(
+                    `Sierra agent setup ${issue.severity} at ${issue.path}: ${issue.message}`
+                );
+            }
+        }
 
-        this.options = options;
-        this.url = this.buildUrl(this.options);
+        // Count replies that arrive while the chat is not being looked at
+        this.on("agentMessageEnd", () => {
+            if (!this.isChatVisible) {
+                this.setUnreadCount(this.unreadCount + 1);
+            }
+        });
+        this.on("conversationChange", () => this.setUnreadCount(0));
+
+        // Accumulate transcripts from message events
+        this.on("message", ({ conversationId, message }) =>
+            this.addTranscriptMessage(conversationId, message)
+        );
+        this.on("conversationEnded", ({ conversationId }) =>
+            this.endedConversations.add(conversationId)
+        );
+        this.on("clearStorage", ({ conversationId }) => this.transcripts.delete(conversationId));
+
+        // Report errors and recoveries to telemetry, leaving out the raw messages
+        this.on("bridgeError", ({ conversationId, error }) =>
+            this.recordTelemetry({
+                name: "bridgeError",
+                conversationId,
+                code: error.code,
+                messageType: error.messageType,
+            })
+        );
+        this.on("webViewProcessTerminated", event =>
+            this.recordTelemetry({ name: "webViewProcessTerminated", ...event })
+        );
+    }
+
+    /**
+     * Check the agent's configuration for problems, including the length of its embed URL.
+     * @returns The issues found, empty if the configuration is valid
+     */
+    validate(): ValidationIssue[] {
+        return validateAgentSetup(this.config, this.options, this.url);
     }
 
     /**
@@ -55,7 +213,7 @@ export class Agent {
      * @returns The conversation storage object
      */
     getStorage(): ConversationStorage {
-        return this.storage;
+        return this.conversations.getStorage(this.conversationId);
     }
 
     /**
@@ -65,7 +223,32 @@ export class Agent {
      */
     getSessionStorage(): ConversationStorage {
         console.warn("getSessionStorage() is deprecated. Use getStorage() instead.");
-        return this.storage;
+        return this.getStorage();
+    }
+
+    /**
+     * Import conversation state from the deprecated AgentSessionStorage, so that conversations in
+     * progress before upgrading the SDK are kept. Nothing is imported if the open conversation
+     * already has stored state.
+     * @param sessionStorage - The legacy storage, or the values previously returned by its getAll()
+     * @returns Whether any state was imported
+     */
+    async importSessionStorage(
+        sessionStorage: AgentSessionStorage | Record<string, string>
+    ): Promise<boolean> {
+        await this.waitForLoad();
+        const values =
+            sessionStorage instanceof AgentSessionStorage
+                ? sessionStorage.getAll()
+                : sessionStorage;
+        const storage = this.getStorage();
+        if (Object.keys(values).length === 0 || Object.keys(storage.getAll()).length > 0) {
+            return false;
+        }
+        for (const [key, value] of Object.entries(values)) {
+            storage.setItem(key, value);
+        }
+        return true;
     }
 
     /**
@@ -73,164 +256,365 @@ export class Agent {
      * This affects both in-memory and disk-persisted state depending on the persistence mode.
      */
     resetConversation(): void {
-        this.storage.clear();
+        this.getStorage().clear();
     }
 
     /**
-     * Wait for storage to finish loading from disk.
-     * Returns immediately for NONE and MEMORY persistence modes.
-     * For DISK mode, resolves when the initial load from storage completes.
-     *
-     * This should be awaited before displaying the chat UI to ensure
-     * conversation state is properly restored.
+     * Write pending conversation state through the storage adapter, e.g. when the app moves to
+     * the background. Resolves immediately for NONE and MEMORY persistence modes.
      */
-    waitForLoad(): Promise<void> {
-        return this.storage.waitForLoad();
+    flush(): Promise<void> {
+        return this.conversations.flush();
     }
 
     /**
-     * Get the agent's URL with all custom parameters
-     * @returns The agent's URL
+     * Get the ID of the currently open conversation
+     * @returns The conversation ID
      */
-    getEmbedUrl(): string {
-        return this.url;
+    getConversationId(): string {
+        return this.conversationId;
     }
 
-    getEmbedOrigin(): string {
-        try {
-            const url = new URL(this.url);
-            return `${url.protocol}//${url.host}`;
-        } catch (error) {
-            console.error(`Error parsing embed URL: ${error}`);
-            return "*";
-        }
+    /**
+     * List the agent's stored conversations, most recently active first.
+     * @returns Metadata for each conversation
+     */
+    listConversations(): Promise<ConversationInfo[]> {
+        return this.conversations.list();
     }
 
-    private buildUrl(options: ChatOptions): string {
-        const { config } = this;
+    /**
+     * Open a different conversation, creating it if it does not exist yet.
+     * A mounted SierraAgentView reloads to show the conversation.
+     * @param conversationId - The conversation to open
+     */
+    async switchConversation(conversationId: string): Promise<void> {
+        if (!conversationId) {
+            throw new Error("conversationId must be a non-empty string");
+        }
+        if (conversationId === this.conversationId) return;
 
-        const params = new URLSearchParams();
+        this.conversationId = conversationId;
+        await this.conversations.open(conversationId);
+        this.emit("conversationChange", { conversationId });
+    }
 
-        // Add the specific release target for the agent
-        if (config.target) {
-            params.append("target", config.target);
+    /**
+     * Delete a conversation's stored state and metadata. Deleting the currently open conversation
+     * leaves it open but empty, and a mounted SierraAgentView reloads to start fresh.
+     * @param conversationId - The conversation to delete
+     */
+    async deleteConversation(conversationId: string): Promise<void> {
+        await this.conversations.delete(conversationId);
+        this.transcripts.delete(conversationId);
+        if (conversationId === this.conversationId) {
+            this.emit("conversationChange", { conversationId });
         }
+    }
 
-        // Should match the Brand type from bots/useChat.tsx
-        const brandJSON = JSON.stringify({
-            botName: options.name ?? "Your virtual assistant",
-            greetingMessage: options.greetingMessage ?? "How can I help you today?",
-            errorMessage:
-                options.errorMessage ?? "Oops, an error was encountered! Please try again.",
-            agentTransferWaitingMessage:
-                options.agentTransferWaitingMessage ?? "Waiting for agent…",
-            agentJoinedMessage: options.agentJoinedMessage ?? "Agent connected",
-            agentLeftMessage: options.agentLeftMessage ?? "Agent disconnected",
-            chatStyle: options.chatStyle ? this.transformChatStyle(options.chatStyle) : undefined,
-            ...(options.showTimestamps != null && { showTimestamps: options.showTimestamps }),
-            ...(options.showSpeakerLabels != null && { showBotName: options.showSpeakerLabels }),
-            messageLabelPlacement: options.messageLabelPlacement ?? "",
-        });
+    /**
+     * Add a listener for an agent event. Listeners receive events from any mounted
+     * SierraAgentView showing this agent, as well as agent-level events such as conversation
+     * switches.
+     * @param event - The event name
+     * @param listener - Invoked with the event payload
+     * @returns A function that removes the listener
+     */
+    on<E extends AgentEventName>(event: E, listener: AgentEventListener<E>): () => void {
+        return this.events.on(event, listener);
+    }
 
-        params.append("brand", brandJSON);
+    /**
+     * Remove a listener added with on().
+     * @param event - The event name
+     * @param listener - The listener to remove
+     */
+    off<E extends AgentEventName>(event: E, listener: AgentEventListener<E>): void {
+        this.events.off(event, listener);
+    }
 
-        // Subset of the ChatUiStrings type from chat/ui-strings.ts
-        const chatInterfaceStrings = JSON.stringify({
-            inputPlaceholder: options.inputPlaceholder ?? "",
-            disclosure: options.disclosure ?? "",
-            conversationEndedMessage: options.conversationEndedMessage ?? "",
-        });
-        params.append("chatInterfaceStrings", chatInterfaceStrings);
+    /**
+     * Emit an agent event to all listeners.
+     * @internal Used by SierraAgentView to report messages from the embed page
+     */
+    emit<E extends AgentEventName>(event: E, payload: AgentEventMap[E]): void {
+        this.events.emit(event, payload);
+    }
 
-        if (options.hideTitleBar) {
-            params.append("hideTitleBar", "true");
+    /**
+     * Send an event to the agent's telemetry, if any. Errors thrown by the telemetry are logged.
+     * @internal Used by SierraAgentView to report load timings and errors
+     */
+    recordTelemetry(event: TelemetryEventData): void {
+        if (!this.telemetry) return;
+        try {
+            this.telemetry.record({ ...event, timestamp: Date.now() });
+        } catch (error) {
+            console.error("Error recording telemetry:", error);
         }
+    }
 
-        // Use custom persistence mode to store and load chat session data across views
-        params.append("persistenceMode", "custom");
-
-        const conversationOptions = options.conversationOptions ?? {};
+    /**
+     * Get the messages of the open conversation received so far. Messages are only received
+     * while a SierraAgentView for this agent is mounted; a restored conversation includes the
+     * earlier messages the chat replays when it loads.
+     * @returns A snapshot of the transcript, with exporters to JSON, plain text and HTML
+     */
+    getTranscript(): Transcript {
+        const messages = this.transcripts.get(this.conversationId) ?? [];
+        return new Transcript(this.conversationId, [...messages]);
+    }
 
-        const locale = conversationOptions.locale ?? "en-US";
-        params.append("locale", locale);
-        // Add variables
-        if (conversationOptions.variables) {
-            for (const [name, value] of Object.entries(conversationOptions.variables)) {
-                params.append("variable", `${name}:${value}`);
-            }
+    private addTranscriptMessage(conversationId: string, message: TranscriptMessage): void {
+        if (this.endedConversations.delete(conversationId)) {
+            this.transcripts.delete(conversationId);
         }
-        // Add secrets
-        if (conversationOptions.secrets) {
-            for (const [name, value] of Object.entries(conversationOptions.secrets)) {
-                params.append("secret", `${name}:${value}`);
-            }
+        const messages = this.transcripts.get(conversationId) ?? [];
+        const index = messages.findIndex(m => m.id === message.id);
+        if (index >= 0) {
+            messages[index] = message;
+        } else {
+            messages.push(message);
         }
+        this.transcripts.set(conversationId, messages);
+    }
 
-        const customGreeting = conversationOptions.customGreeting ?? options.greetingMessage;
-        if (customGreeting) {
-            params.append("greeting", customGreeting);
-        }
+    /**
+     * Get the number of agent replies received since the user last viewed the chat.
+     * Replies are only received while a SierraAgentView for this agent is mounted, so keep it
+     * mounted (e.g. in a background tab) for the count to reflect replies that arrive meanwhile.
+     * @returns The unread reply count
+     */
+    getUnreadCount(): number {
+        return this.unreadCount;
+    }
 
-        if (conversationOptions.enableContactCenter) {
-            params.append("enableContactCenter", "true");
-        }
+    /**
+     * Reset the unread reply count to zero.
+     */
+    markRead(): void {
+        this.setUnreadCount(0);
+    }
 
-        if (options.canPrintTranscript) {
-            params.append("canPrintTranscript", "true");
+    /**
+     * Report whether the chat is currently visible to the user. While visible, agent replies are
+     * not counted as unread. SierraAgentView reports this automatically from its isFocused prop
+     * and the app state.
+     * @param visible - Whether the chat is visible
+     */
+    setChatVisible(visible: boolean): void {
+        this.isChatVisible = visible;
+        if (visible) {
+            this.markRead();
         }
+    }
 
-        if (options.canEndConversation) {
-            params.append("canEndConversation", "true");
-        }
+    /**
+     * Register a mounted view that shows the agent's chat. Secrets are refreshed ahead of their
+     * expiry only while a view is attached. SierraAgentView attaches itself automatically.
+     * @returns A function that detaches the view
+     */
+    attachView(): () => void {
+        this.attachedViewCount++;
+        this.secrets?.setRefreshAhead(true);
+        let isAttached = true;
+        return () => {
+            if (!isAttached) return;
+            isAttached = false;
+            this.attachedViewCount--;
+            if (this.attachedViewCount === 0) {
+                this.secrets?.setRefreshAhead(false);
+            }
+        };
+    }
 
-        if (options.canStartNewChat) {
-            params.append("canStartNewChat", "true");
-        }
+    private setUnreadCount(unreadCount: number): void {
+        if (unreadCount === this.unreadCount) return;
+        this.unreadCount = unreadCount;
+        this.emit("unreadCountChange", { unreadCount });
+    }
 
-        if (options.startAtTop) {
-            params.append("startAtTop", "true");
+    /**
+     * Register conversation callbacks, invoked for the conversation events of this agent.
+     * If the callbacks override onSecretExpiry, it is used to refresh expired secrets, taking
+     * precedence over the agent's secretProvider.
+     * @param callbacks - The callbacks to register
+     * @returns A function that unregisters the callbacks
+     */
+    addCallbacks(callbacks: ConversationCallbacks): () => void {
+        const unsubscribers = [
+            this.on("transfer", ({ transfer }) => callbacks.onConversationTransfer(transfer)),
+            this.on("agentMessageEnd", () => callbacks.onAgentMessageEnd()),
+            this.on("conversationEnded", () => callbacks.onConversationEnded()),
+        ];
+        if (callbacks.onSecretExpiry !== ConversationCallbacks.prototype.onSecretExpiry) {
+            this.secretExpiryCallbacks.push(callbacks);
         }
+        return () => {
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+            this.secretExpiryCallbacks = this.secretExpiryCallbacks.filter(c => c !== callbacks);
+        };
+    }
 
-        if (options.pinDisclosure) {
-            params.append("pinDisclosure", "true");
-        }
+    /**
+     * Wait for storage to finish loading from disk.
+     * Returns immediately for NONE and MEMORY persistence modes.
+     * For DISK mode, resolves when the initial load from storage completes.
+     * A conversation that has expired under config.expiry is cleared before this resolves.
+     * When a secretProvider is configured, also waits for its initial secrets to be fetched.
+     *
+     * This should be awaited before displaying the chat UI to ensure
+     * conversation state is properly restored.
+     */
+    async waitForLoad(): Promise<void> {
+        await Promise.all([this.getStorage().waitForLoad(), this.secrets?.prefetch()]);
+    }
 
-        if (options.useConfiguredChatStrings) {
-            params.append("useConfiguredChatStrings", "true");
+    /**
+     * Get a new value for a secret that the chat reported as expired. Always resolves, with an
+     * error result if the secret could not be obtained in time.
+     * @param secretName - The name of the expired secret
+     * @param handler - Handler that takes precedence over registered callbacks and the agent's
+     * secretProvider
+     * @returns The result to send back to the chat
+     */
+    resolveExpiredSecret(
+        secretName: string,
+        handler?: (secretName: string, replyHandler: SecretExpiryReplyHandler) => void
+    ): Promise<SecretExpiryResult> {
+        const callbacks = this.secretExpiryCallbacks[this.secretExpiryCallbacks.length - 1];
+        if (!handler && callbacks) {
+            handler = (name, replyHandler) => callbacks.onSecretExpiry(name, replyHandler);
         }
 
-        if (options.useConfiguredStyle) {
-            params.append("useConfiguredStyle", "true");
+        let result: Promise<SecretExpiryResult>;
+        if (handler) {
+            result = withTimeout(
+                new Promise<SecretExpiryResult>(resolve => handler(secretName, resolve)),
+                this.secretTimeoutMs
+            );
+        } else if (this.secrets) {
+            result = this.secrets.getForExpiry(secretName);
+        } else {
+            // No handler or provider, resolve with null
+            return Promise.resolve({ value: null });
         }
+        return result.catch(error => ({ error: String(error) }));
+    }
 
-        return `${config.url}?${params.toString()}`;
+    /**
+     * Get the current conversation variables, including updates from setVariables()
+     * @returns A copy of the variables
+     */
+    getVariables(): Record<string, string> {
+        return { ...this.variables };
     }
 
-    private transformChatStyle(chatStyle: ChatStyleOptions): string {
-        if (!chatStyle) return JSON.stringify({});
+    /**
+     * Update conversation variables, e.g. when the user's cart or signed-in state changes.
+     * A mounted SierraAgentView delivers the update to the running chat without reloading it.
+     * Variables not included are left unchanged. The embed URL keeps the initial variables
+     * from ConversationOptions; updated variables are re-sent whenever the chat reloads.
+     * @param variables - Variables to add or update
+     */
+    setVariables(variables: Record<string, string>): void {
+        this.variables = { ...this.variables, ...variables };
+        this.emit("variablesChange", { variables: this.getVariables() });
+    }
 
-        // Create a clean new object with only the properties we need
-        const result: any = {
-            colors: chatStyle.colors,
-        };
+    /**
+     * Get the agent's URL with all custom parameters
+     * @returns The agent's URL
+     */
+    getEmbedUrl(): string {
+        return this.url;
+    }
 
-        // Transform typography to type to match the ChatStyle type from ui/chat/chat.tsx
-        if (chatStyle.typography) {
-            const type: any = {
-                ...chatStyle.typography,
+    /**
+     * Get the configuration delivered to the embed page by a script injected before it loads,
+     * rather than through the embed URL. Always includes the conversation secrets.
+     * @returns The injected configuration
+     */
+    getInjectedConfig(): InjectedEmbedConfig {
+        const injectedConfig = { ...this.injectedConfig };
+        if (this.secrets) {
+            injectedConfig.secrets = {
+                ...injectedConfig.secrets,
+                ...this.secrets.getCachedSecrets(),
             };
+        }
+        // The brand is built once, so deliver the palette for the current color scheme separately
+        const chatStyle = this.getThemedChatStyle();
+        if (chatStyle) {
+            injectedConfig.chatStyle = chatStyle;
+        }
+        return injectedConfig;
+    }
 
-            // Set all responsive font sizes
-            if (chatStyle.typography.fontSize !== undefined) {
-                type.fontSize900 = chatStyle.typography.fontSize;
-                type.fontSize750 = chatStyle.typography.fontSize;
-                type.fontSize500 = chatStyle.typography.fontSize;
-            }
+    /**
+     * Get the locale the chat is shown in, from ConversationOptions.locale or the device
+     */
+    getLocale(): string {
+        return this.locale;
+    }
 
-            result.type = type;
+    /**
+     * Get the font files registered with ChatStyleOptions.fonts
+     */
+    getChatFonts(): ChatStyleFont[] {
+        return this.options.chatStyle?.fonts ?? [];
+    }
+
+    /**
+     * Get the color scheme the chat is shown in
+     */
+    getColorScheme(): ColorScheme {
+        return this.colorScheme;
+    }
+
+    /**
+     * Set the color scheme the chat is shown in. SierraAgentView follows the system appearance,
+     * so this only needs to be called directly to override it.
+     * When ChatStyleOptions has light or dark colors, a mounted SierraAgentView delivers the
+     * matching chat style to the running chat without reloading it.
+     * @param colorScheme - The color scheme
+     */
+    setColorScheme(colorScheme: ColorScheme): void {
+        if (colorScheme === this.colorScheme) return;
+        this.colorScheme = colorScheme;
+        const chatStyle = this.getThemedChatStyle();
+        if (chatStyle) {
+            this.emit("chatStyleChange", { colorScheme, chatStyle });
+        }
+    }
+
+    /**
+     * Get the origin of the embed URL, the only origin the WebView navigates within
+     * @returns The origin, e.g. "https://sierra.chat"
+     */
+    getEmbedOrigin(): string {
+        return getUrlOrigin(this.url) ?? "*";
+    }
+
+    private buildInjectedConfig(options: ChatOptions): InjectedEmbedConfig {
+        const conversationOptions = options.conversationOptions ?? {};
+        const injectedConfig: InjectedEmbedConfig = {
+            secrets: { ...conversationOptions.secrets },
+            direction: options.layoutDirection ?? getLayoutDirection(this.locale),
+        };
+        if (options.injectConfiguration) {
+            injectedConfig.brand = buildBrand(options, this.colorScheme);
+            injectedConfig.chatInterfaceStrings = buildChatInterfaceStrings(options);
+            injectedConfig.variables = { ...conversationOptions.variables };
         }
+        return injectedConfig;
+    }
 
-        return JSON.stringify(result);
+    // The chat style for the current color scheme, when it differs between schemes
+    private getThemedChatStyle(): string | undefined {
+        const chatStyle = this.options.chatStyle;
+        if (!chatStyle?.light && !chatStyle?.dark) return undefined;
+        return serializeChatStyle(chatStyle, this.colorScheme);
     }
 }
 
@@ -1,19 +1,110 @@
 // Copyright Sierra
 
-import React, { useCallback, useRef, forwardRef, ReactElement, useState, useEffect } from "react";
-import { View, StyleSheet, ViewStyle, Platform, ActivityIndicator } from "react-native";
+import React, {
+    useRef,
+    forwardRef,
+    ReactElement,
+    useState,
+    useEffect,
+    useImperativeHandle,
+    useMemo,
+} from "react";
+import {
+    AccessibilityInfo,
+    View,
+    StyleSheet,
+    ViewStyle,
+    Platform,
+    ActivityIndicator,
+    AppState,
+    AppStateStatus,
+    Linking,
+    useColorScheme,
+    useWindowDimensions,
+} from "react-native";
 import WebView from "react-native-webview";
 import type {
+    ShouldStartLoadRequest,
     WebViewErrorEvent,
     WebViewHttpErrorEvent,
+    WebViewMessageEvent,
+    WebViewRenderProcessGoneEvent,
 } from "react-native-webview/lib/WebViewTypes";
 import { ConversationTransfer, SecretExpiryReplyHandler } from "../models/ConversationTypes";
+import {
+    AccessibilitySettings,
+    BridgeCommand,
+    BridgeProtocolError,
+    InjectedFontFace,
+    UnknownBridgeMessage,
+    buildClearStorageScript,
+    buildFontFaceScript,
+    buildInitialScript,
+    buildResolveCallbackScript,
+    buildStoreValueScript,
+    checkProtocolVersion,
+    parseBridgeMessage,
+    restrictToOrigin,
+    serializeBridgeCommand,
+} from "../models/BridgeProtocol";
+import {
+    TranscriptMessage,
+    TranscriptRequest,
+    suggestTranscriptFilename,
+} from "../models/Transcript";
+import { ChatStyleFont, ColorScheme, fontDataUrl } from "../models/ChatStyle";
+import { NavigationPolicy, decideNavigation } from "../models/NavigationPolicy";
+import { getUrlOrigin } from "../models/AgentConfig";
 import { Agent } from "../Agent";
 
+/**
+ * A failure to load the chat
+ * - `network`: the page could not be reached, e.g. because the device is offline
+ * - `http`: the server responded with an error status
+ */
+export type AgentViewError =
+    | { type: "network"; code: number; description: string; url: string }
+    | { type: "http"; statusCode: number; description: string; url: string };
+
+/**
+ * Controls automatic retries after transient load failures: network errors, and HTTP 429 and 5xx
+ * responses. Retries are spaced with exponential backoff.
+ */
+export interface RetryPolicy {
+    /**
+     * Maximum number of automatic retries before giving up until the user retries
+     * @default 3
+     */
+    maxRetries?: number;
+
+    /**
+     * Delay before the first retry in milliseconds, doubled for each following retry
+     * @default 1000
+     */
+    initialDelayMs?: number;
+
+    /**
+     * Maximum delay between retries in milliseconds
+     * @default 30000
+     */
+    maxDelayMs?: number;
+}
+
 interface SierraAgentViewProps {
     agent: Agent;
     style?: ViewStyle;
     renderLoading?: () => ReactElement;
+    /**
+     * Render the UI shown in place of the chat when it fails to load. Call retry() to reload the
+     * chat; conversation state is kept, so the conversation resumes where it left off.
+     * When not provided, the WebView's own error page is shown.
+     */
+    renderError?: (props: { error: AgentViewError; retry: () => void }) => ReactElement;
+    /**
+     * Automatic retries after transient load failures, or false to disable them.
+     * @default { maxRetries: 3, initialDelayMs: 1000, maxDelayMs: 30000 }
+     */
+    retryPolicy?: RetryPolicy | false;
     onConversationTransfer?: (transfer: ConversationTransfer) => void;
     onAgentMessageEnd?: () => void;
     onEndChat?: () => void;
@@ -24,52 +115,119 @@ interface SierraAgentViewProps {
      * - { value: newValue } - a new value for the secret
      * - { value: null } - if the secret cannot be provided due to a known condition (e.g. the user has signed out)
      * - { error: errorMessage } - if the secret cannot be fetched right now, but the request should be retried
+     * Takes precedence over the agent's secretProvider. If the reply handler is not invoked within
+     * the agent's secret timeout, the chat is sent an error result.
      */
     onSecretExpiry?: (secretName: string, replyHandler: SecretExpiryReplyHandler) => void;
     /**
      * Callback invoked when the WebView attempts to open a new window (e.g. window.open() or
      * a link with target="_blank"). When provided, the default behavior of opening in the system
      * browser is suppressed, and the event is passed to this callback instead.
+     * With a navigationPolicy, only windows the policy does not route to onDeepLink or block
+     * are passed to this callback.
      */
     onOpenWindow?: (event: { targetUrl: string }) => void;
+    /**
+     * How links and other navigations inside the chat are handled: loaded in the chat, opened
+     * externally or routed to the app as deep links. When not provided, navigations away from
+     * the embed page's origin open in the system browser.
+     * Links that open a new window, such as links in chat messages, are never loaded in the chat:
+     * those the policy allows are opened externally, or passed to onOpenWindow when provided.
+     */
+    navigationPolicy?: NavigationPolicy;
+    /**
+     * Callback invoked when the embed page sends a message type this version of the SDK does not
+     * recognize, typically because the embed page is newer than the SDK.
+     */
+    onUnknownMessage?: (message: UnknownBridgeMessage) => void;
+    /**
+     * Callback invoked when a message from the embed page is malformed or invalid, or when the
+     * embed page reports a different bridge protocol version than the SDK. Errors are logged
+     * with console.error when not provided.
+     */
+    onBridgeError?: (error: BridgeProtocolError) => void;
+    /**
+     * Callback invoked when the user chooses to print or save the transcript (requires
+     * ChatOptions.canPrintTranscript). Receives the transcript, an HTML rendering of it and a
+     * suggested file name, to pass to a PDF or share library.
+     */
+    onTranscriptRequested?: (request: TranscriptRequest) => void;
+    /**
+     * Whether the screen showing the chat is focused, e.g. from react-navigation's useIsFocused().
+     * While focused and the app is active, agent replies are marked read.
+     * @default true
+     */
+    isFocused?: boolean;
+    /**
+     * The color scheme to show the chat in, selecting ChatStyleOptions' light or dark colors.
+     * Follows the system appearance when not provided.
+     */
+    colorScheme?: ColorScheme;
+    /**
+     * Upper limit on the OS text size applied to the chat, like Text's maxFontSizeMultiplier.
+     * The chat follows the OS text size without a limit when not provided.
+     */
+    maxFontScale?: number;
+    /**
+     * Whether new replies from the agent are announced by the screen reader while the chat is
+     * shown.
+     * @default true
+     */
+    announceMessages?: boolean;
+    /**
+     * Accessibility label of the chat, read by the screen reader when it is focused.
+     * @default "Chat"
+     */
+    accessibilityLabel?: string;
 }
 
 /**
- * Interface to match postMessage's message parameter from web/sites/embed/pages/agent/{token}/mobile.tsx
+ * Imperative handle exposed by SierraAgentView through its ref. Commands sent while the chat is
+ * loading are delivered once the embed page is ready for them.
  */
-type WebViewMessage =
-    | {
-          type: "storeValue";
-          data: { key: string; value: string };
-      }
-    | {
-          type: "clearStorage";
-      }
-    | {
-          type: "transfer";
-          data: { isSynchronous: boolean; isContactCenter: boolean; data: any };
-      }
-    | {
-          type: "agentMessageEnd";
-      }
-    | {
-          type: "onEndChat";
-      }
-    | {
-          type: "onSecretExpiry";
-          secretName: string;
-          callbackId: string;
-      };
+export interface SierraAgentViewHandle {
+    /**
+     * Send a message in the conversation on behalf of the user, as if they had typed it.
+     * @param text - The message text
+     */
+    sendMessage(text: string): void;
+
+    /** End the current conversation. */
+    endConversation(): void;
+
+    /** End the current conversation and start a new one. */
+    startNewChat(): void;
+
+    /** Move keyboard focus to the chat input. */
+    focusInput(): void;
+
+    /**
+     * Reload the chat. Conversation state held in the agent's storage is re-injected, so the
+     * conversation resumes where it left off.
+     */
+    reload(): void;
+
+    /**
+     * Get the underlying WebView, for apps that used it through the ref before the ref exposed
+     * this handle. Scripts and messages sent through it bypass the checks that keep them on the
+     * embed page, so prefer the methods above.
+     * @deprecated Use the methods of this handle instead
+     * @returns The WebView, or null while it is not mounted
+     */
+    getWebView(): WebView | null;
+}
 
 /**
  * Sierra WebView Chat component that uses a WebView to embed the Sierra chat experience
  */
-const SierraAgentView: React.FC<SierraAgentViewProps> = forwardRef<WebView, SierraAgentViewProps>(
+const SierraAgentView = forwardRef<SierraAgentViewHandle, SierraAgentViewProps>(
     (
         {
             agent,
             style,
             renderLoading,
+            renderError,
+            retryPolicy = {},
             onConversationTransfer,
             onAgentMessageEnd,
             onEndChat,
@@ -77,11 +235,124 @@ const SierraAgentView: React.FC<SierraAgentViewProps> = forwardRef<WebView, Sier
             onHttpError,
             onSecretExpiry,
             onOpenWindow,
+            navigationPolicy,
+            onUnknownMessage,
+            onBridgeError,
+            onTranscriptRequested,
+            isFocused = true,
+            colorScheme,
+            maxFontScale,
+            announceMessages = true,
+            accessibilityLabel = "Chat",
         }: SierraAgentViewProps,
-        ref: React.Ref<WebView>
+        ref: React.Ref<SierraAgentViewHandle>
     ) => {
         const webViewRef = useRef<WebView>(null);
         const [isStorageReady, setIsStorageReady] = useState(false);
+        // Incremented to remount the WebView, which rebuilds the injected storage snapshot
+        const [loadCount, setLoadCount] = useState(0);
+        const [loadError, setLoadError] = useState<AgentViewError | null>(null);
+        const retryCount = useRef(0);
+        const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+        // Telemetry for the current load of the embed page
+        const loadAttempts = useRef(0);
+        const timedLoadCount = useRef<number | null>(null);
+        const loadStartedAt = useRef(0);
+        const isLoadEndPending = useRef(false);
+        const isFirstMessagePending = useRef(false);
+
+        const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+        const isVisible = isFocused && appState === "active";
+
+        useEffect(() => {
+            const subscription = AppState.addEventListener("change", setAppState);
+            return () => subscription.remove();
+        }, []);
+
+        // Secrets are refreshed ahead of expiry only while the chat is mounted
+        useEffect(() => agent.attachView(), [agent]);
+
+        // Let the agent know when replies are being seen, so they are not counted as unread
+        useEffect(() => {
+            agent.setChatVisible(isVisible);
+            return () => agent.setChatVisible(false);
+        }, [agent, isVisible]);
+
+        const fontFaces = useMemo(() => getFontFaces(agent.getChatFonts()), [agent]);
+
+        const systemColorScheme = useColorScheme();
+        const activeColorScheme = colorScheme ?? (systemColorScheme === "dark" ? "dark" : "light");
+
+        useEffect(() => {
+            agent.setColorScheme(activeColorScheme);
+        }, [agent, activeColorScheme]);
+
+        // Deliver the chat style for the new color scheme to the running chat
+        useEffect(
+            () =>
+                agent.on("chatStyleChange", ({ chatStyle }) =>
+                    postCommand({ type: "setChatStyle", data: { chatStyle } })
+                ),
+            [agent]
+        );
+
+        const { fontScale } = useWindowDimensions();
+        const [reduceMotion, setReduceMotion] = useState(false);
+        const [boldText, setBoldText] = useState(false);
+        const accessibility: AccessibilitySettings = {
+            fontScale: maxFontScale != null ? Math.min(fontScale, maxFontScale) : fontScale,
+            reduceMotion,
+            boldText,
+        };
+
+        useEffect(() => {
+            AccessibilityInfo.isReduceMotionEnabled().then(setReduceMotion);
+            const subscriptions = [
+                AccessibilityInfo.addEventListener("reduceMotionChanged", setReduceMotion),
+            ];
+            if (Platform.OS === "ios") {
+                AccessibilityInfo.isBoldTextEnabled().then(setBoldText);
+                subscriptions.push(
+                    AccessibilityInfo.addEventListener("boldTextChanged", setBoldText)
+                );
+            }
+            return () => subscriptions.forEach(subscription => subscription.remove());
+        }, []);
+
+        // Deliver accessibility preference changes to the running chat. The preferences when
+        // the chat loads are part of the injected configuration.
+        useEffect(() => {
+            postCommand({ type: "setAccessibility", data: accessibility });
+        }, [accessibility.fontScale, reduceMotion, boldText]);
+
+        // Replies already in the conversation when the view mounted are not announced
+        const mountedAt = useRef(Date.now());
+        const announcedMessageIds = useRef(new Set<string>());
+
+        const announceMessage = (message: TranscriptMessage) => {
+            if (!announceMessages || !isVisible) return;
+            if (message.role !== "assistant" && message.role !== "humanAgent") return;
+            if (message.timestamp < mountedAt.current) return;
+            if (announcedMessageIds.current.has(message.id)) return;
+            announcedMessageIds.current.add(message.id);
+            AccessibilityInfo.announceForAccessibility(message.text);
+        };
+
+        // Reload when the agent opens a different conversation
+        useEffect(
+            () => agent.on("conversationChange", () => setLoadCount(count => count + 1)),
+            [agent]
+        );
+
+        // Deliver variable updates to the running chat
+        useEffect(
+            () =>
+                agent.on("variablesChange", ({ variables }) =>
+                    postCommand({ type: "setVariables", data: { variables } })
+                ),
+            [agent]
+        );
 
         // Wait for storage to load before rendering the WebView.
         // This ensures conversation state is properly restored for DISK mode.
@@ -96,105 +367,322 @@ const SierraAgentView: React.FC<SierraAgentViewProps> = forwardRef<WebView, Sier
             return () => {
                 mounted = false;
             };
-        }, [agent]);
-
-        const setWebViewRef = useCallback(
-            (instance: WebView | null) => {
-                webViewRef.current = instance;
-                if (typeof ref === "function") {
-                    ref(instance);
-                } else if (ref) {
-                    ref.current = instance;
-                }
-            },
-            [ref]
+        }, [agent, loadCount]);
+
+        const cancelRetry = () => {
+            if (retryTimer.current) {
+                clearTimeout(retryTimer.current);
+                retryTimer.current = null;
+            }
+        };
+
+        // Remount the WebView, keeping conversation state so the conversation resumes
+        const retry = () => {
+            cancelRetry();
+            setLoadError(null);
+            setLoadCount(count => count + 1);
+        };
+
+        // Retry requested by the app or the user, restarting automatic retries if they gave up
+        const retryNow = () => {
+            retryCount.current = 0;
+            retry();
+        };
+
+        useEffect(() => cancelRetry, []);
+
+        const handleLoadError = (error: AgentViewError) => {
+            setLoadError(error);
+            cancelRetry();
+            agent.recordTelemetry({
+                name: "webViewError",
+                conversationId: agent.getConversationId(),
+                type: error.type,
+                code: error.type === "http" ? error.statusCode : error.code,
+            });
+
+            const isTransient =
+                error.type === "network" || error.statusCode === 429 || error.statusCode >= 500;
+            if (!retryPolicy || !isTransient) return;
+
+            const { maxRetries = 3, initialDelayMs = 1000, maxDelayMs = 30000 } = retryPolicy;
+            if (retryCount.current >= maxRetries) return;
+
+            const delay = Math.min(initialDelayMs * 2 ** retryCount.current, maxDelayMs);
+            retryCount.current += 1;
+            retryTimer.current = setTimeout(retry, delay);
+            agent.recordTelemetry({
+                name: "webViewLoadRetry",
+                conversationId: agent.getConversationId(),
+                attempt: retryCount.current,
+                delayMs: delay,
+            });
+        };
+
+        // Time the first load of the embed page in each WebView, ignoring later navigations
+        const handleLoadStart = () => {
+            if (timedLoadCount.current === loadCount) return;
+            timedLoadCount.current = loadCount;
+            loadAttempts.current += 1;
+            loadStartedAt.current = Date.now();
+            isLoadEndPending.current = true;
+            isFirstMessagePending.current = true;
+            agent.recordTelemetry({
+                name: "webViewLoadStart",
+                conversationId: agent.getConversationId(),
+                attempt: loadAttempts.current,
+            });
+        };
+
+        const handleLoadEnd = () => {
+            if (!isLoadEndPending.current) return;
+            isLoadEndPending.current = false;
+            agent.recordTelemetry({
+                name: "webViewLoadEnd",
+                conversationId: agent.getConversationId(),
+                durationMs: Date.now() - loadStartedAt.current,
+            });
+        };
+
+        // The WebView goes blank when its content process dies, so remount it. The storage
+        // snapshot is rebuilt from the agent, so the conversation survives.
+        const handleProcessTerminated = (platform: "ios" | "android", didCrash?: boolean) => {
+            const conversationId = agent.getConversationId();
+            console.warn("WebView content process terminated, reloading chat");
+            agent.emit("webViewProcessTerminated", { conversationId, platform, didCrash });
+            retry();
+        };
+
+        // Retry right away when the app returns to the foreground, as connectivity often has too
+        useEffect(() => {
+            if (appState === "active" && loadError && retryTimer.current) {
+                retry();
+            }
+        }, [appState]);
+
+        const handleShouldStartLoad = (request: ShouldStartLoadRequest): boolean => {
+            if (!navigationPolicy) return true;
+            const { url, isTopFrame } = request;
+            switch (
+                decideNavigation({ url, isTopFrame }, agent.getEmbedOrigin(), navigationPolicy)
+            ) {
+                case "allow":
+                    return true;
+                case "deepLink":
+                    if (navigationPolicy.onDeepLink) {
+                        navigationPolicy.onDeepLink(url);
+                        return false;
+                    }
+                    openExternally(url);
+                    return false;
+                case "external":
+                    openExternally(url);
+                    return false;
+                case "block":
+                    return false;
+            }
+        };
+
+        // New windows would take the user away from the conversation, so they are never loaded in
+        // the chat, but deep links and blocked URLs still follow the policy
+        const handleOpenWindow = (targetUrl: string) => {
+            const decision = navigationPolicy
+                ? decideNavigation(
+                      { url: targetUrl, isTopFrame: true },
+                      agent.getEmbedOrigin(),
+                      navigationPolicy
+                  )
+                : "external";
+            if (decision === "block") return;
+            if (decision === "deepLink" && navigationPolicy?.onDeepLink) {
+                navigationPolicy.onDeepLink(targetUrl);
+            } else if (onOpenWindow) {
+                onOpenWindow({ targetUrl });
+            } else {
+                openExternally(targetUrl);
+            }
+        };
+
+        // Origin of the page the WebView shows, which differs from the embed origin when the
+        // navigation policy lets other sites load
+        const shownOrigin = useRef<string | null>(null);
+        const isEmbedPageShown = () => shownOrigin.current === agent.getEmbedOrigin();
+
+        // Commands are queued until the embed page's handshake shows it listens for them
+        const isBridgeReady = useRef(false);
+        const pendingCommands = useRef<BridgeCommand[]>([]);
+
+        const postCommand = (command: BridgeCommand) => {
+            if (!isBridgeReady.current || !isEmbedPageShown()) {
+                pendingCommands.current.push(command);
+                return;
+            }
+            webViewRef.current?.postMessage(serializeBridgeCommand(command));
+        };
+
+        // A remounted WebView loads the embed page afresh, which handshakes again
+        useEffect(() => {
+            isBridgeReady.current = false;
+        }, [agent, loadCount]);
+
+        useImperativeHandle(
+            ref,
+            () => ({
+                sendMessage: (text: string) => postCommand({ type: "sendMessage", data: { text } }),
+                endConversation: () => postCommand({ type: "endConversation" }),
+                startNewChat: () => postCommand({ type: "startNewChat" }),
+                focusInput: () => {
+                    webViewRef.current?.requestFocus();
+                    postCommand({ type: "focusInput" });
+                },
+                reload: retryNow,
+                getWebView: () => webViewRef.current,
+            }),
+            [agent]
         );
 
+        const injectScript = (script: string) => {
+            webViewRef.current?.injectJavaScript(restrictToOrigin(script, agent.getEmbedOrigin()));
+        };
+
+        const reportBridgeError = (error: BridgeProtocolError) => {
+            agent.emit("bridgeError", { conversationId: agent.getConversationId(), error });
+            if (onBridgeError) {
+                onBridgeError(error);
+            } else {
+                console.error(`Error handling message from WebView: ${error.message}`);
+            }
+        };
+
         // Handle messages from the WebViewMessageEvent
-        const handleMessage = (event: any) => {
-            const data = event.nativeEvent?.data;
-            try {
-                const message: WebViewMessage = JSON.parse(data);
-
-                switch (message.type) {
-                    case "storeValue":
-                        if (message.data?.key && message.data?.value !== undefined) {
-                            // Update the agent's storage
-                            agent.getStorage().setItem(message.data.key, message.data.value);
-
-                            // Update the WebView's sync storage, initializing if needed
-                            if (webViewRef.current) {
-                                webViewRef.current.injectJavaScript(`
-                                    window.__sierraSyncStorage = window.__sierraSyncStorage || {};
-                                    window.__sierraSyncStorage[${JSON.stringify(
-                                        message.data.key
-                                    )}] = ${JSON.stringify(message.data.value)};
-                                    true;
-                                `);
-                            }
-                        }
-                        break;
-
-                    case "clearStorage":
-                        // Update the agent's storage
-                        agent.getStorage().clear();
-
-                        // Clear the WebView's sync storage
-                        if (webViewRef.current) {
-                            webViewRef.current.injectJavaScript(`
-                                window.__sierraSyncStorage = {};
-                                true;
-                            `);
-                        }
-                        break;
+        const handleMessage = (event: WebViewMessageEvent) => {
+            // Only the embed page may use the bridge, which hands out conversation state and secrets
+            const origin = getUrlOrigin(event.nativeEvent.url);
+            if (origin !== agent.getEmbedOrigin()) {
+                console.warn(`Ignoring message from ${origin ?? "an unknown origin"}`);
+                return;
+            }
+            shownOrigin.current = origin;
 
-                    case "transfer":
-                        onConversationTransfer?.({
-                            isSynchronous: message.data.isSynchronous,
-                            isContactCenter: message.data.isContactCenter,
-                            data: message.data.data,
-                        });
-                        break;
+            const data = event.nativeEvent.data;
+            const result = parseBridgeMessage(data);
+            const conversationId = agent.getConversationId();
 
-                    case "agentMessageEnd":
-                        onAgentMessageEnd?.();
-                        break;
+            if (result.kind === "error") {
+                reportBridgeError(result.error);
+                return;
+            }
+            if (result.kind === "unknown") {
+                agent.emit("unknownMessage", { conversationId, message: result.message });
+                if (onUnknownMessage) {
+                    onUnknownMessage(result.message);
+                } else {
+                    console.warn(`Unknown message type from WebView: ${result.message.type}`);
+                }
+                return;
+            }
 
-                    case "onEndChat":
-                        agent.getStorage().clear();
+            const message = result.message;
+            switch (message.type) {
+                case "handshake": {
+                    // The embed page is up, so later failures start a fresh round of retries
+                    retryCount.current = 0;
+                    const mismatch = checkProtocolVersion(message.protocolVersion, data);
+                    if (mismatch) {
+                        reportBridgeError(mismatch);
+                    }
+                    isBridgeReady.current = true;
+                    postCommand({ type: "handshake" });
+                    const queuedCommands = pendingCommands.current;
+                    pendingCommands.current = [];
+                    queuedCommands.forEach(postCommand);
+                    agent.emit("handshake", {
+                        conversationId,
+                        protocolVersion: message.protocolVersion,
+                    });
 
-                        if (webViewRef.current) {
-                            webViewRef.current.injectJavaScript(`
-                                window.__sierraSyncStorage = {};
-                                true;
-                            `);
-                        }
-                        onEndChat?.();
-                        break;
-
-                    case "onSecretExpiry":
-                        if (onSecretExpiry) {
-                            onSecretExpiry(message.secretName, result => {
-                                if (webViewRef.current) {
-                                    const jsCode =
-                                        "error" in result
-                                            ? `window.__sierraResolveCallback(${JSON.stringify(message.callbackId)}, null, ${JSON.stringify(result.error)}); true;`
-                                            : `window.__sierraResolveCallback(${JSON.stringify(message.callbackId)}, ${JSON.stringify(result.value)}); true;`;
-                                    webViewRef.current.injectJavaScript(jsCode);
-                                }
-                            });
-                        } else {
-                            // No handler provided, resolve with null
-                            if (webViewRef.current) {
-                                webViewRef.current.injectJavaScript(
-                                    `window.__sierraResolveCallback(${JSON.stringify(message.callbackId)}, null); true;`
-                                );
-                            }
-                        }
-                        break;
+                    // The embed URL only carries the initial variables, so re-send any updates
+                    const variables = agent.getVariables();
+                    if (Object.keys(variables).length > 0) {
+                        postCommand({ type: "setVariables", data: { variables } });
+                    }
+                    break;
                 }
-            } catch (error) {
-                console.error(`Error handling message from WebView: ${JSON.stringify(error)}`);
+
+                case "storeValue":
+                    // Update the agent's storage
+                    agent.getStorage().setItem(message.data.key, message.data.value);
+
+                    // Update the WebView's sync storage
+                    injectScript(buildStoreValueScript(message.data.key, message.data.value));
+                    agent.emit("storeValue", { conversationId, ...message.data });
+                    break;
+
+                case "clearStorage":
+                    // Update the agent's storage
+                    agent.getStorage().clear();
+
+                    // Clear the WebView's sync storage
+                    injectScript(buildClearStorageScript());
+                    agent.emit("clearStorage", { conversationId });
+                    break;
+
+                case "transfer": {
+                    const transfer = new ConversationTransfer(message.data);
+                    onConversationTransfer?.(transfer);
+                    agent.emit("transfer", { conversationId, transfer });
+                    break;
+                }
+
+                case "agentMessageEnd":
+                    onAgentMessageEnd?.();
+                    agent.emit("agentMessageEnd", { conversationId });
+                    break;
+
+                case "message":
+                    agent.emit("message", { conversationId, message: message.data });
+                    announceMessage(message.data);
+                    if (
+                        isFirstMessagePending.current &&
+                        message.data.role === "assistant" &&
+                        message.data.timestamp >= loadStartedAt.current
+                    ) {
+                        isFirstMessagePending.current = false;
+                        agent.recordTelemetry({
+                            name: "firstAgentMessage",
+                            conversationId,
+                            durationMs: Date.now() - loadStartedAt.current,
+                        });
+                    }
+                    break;
+
+                case "printTranscript": {
+                    const transcript = agent.getTranscript();
+                    const request: TranscriptRequest = {
+                        transcript,
+                        html: message.data?.html ?? transcript.exportHTML(),
+                        suggestedFilename: message.data?.filename ?? suggestTranscriptFilename(),
+                    };
+                    onTranscriptRequested?.(request);
+                    agent.emit("transcriptRequested", { conversationId, request });
+                    break;
+                }
+
+                case "onEndChat":
+                    agent.getStorage().clear();
+                    injectScript(buildClearStorageScript());
+                    onEndChat?.();
+                    agent.emit("conversationEnded", { conversationId });
+                    break;
+
+                case "onSecretExpiry":
+                    agent.emit("secretExpiry", { conversationId, secretName: message.secretName });
+                    agent
+                        .resolveExpiredSecret(message.secretName, onSecretExpiry)
+                        .then(reply =>
+                            injectScript(buildResolveCallbackScript(message.callbackId, reply))
+                        );
+                    break;
             }
         };
 
@@ -210,36 +698,74 @@ const SierraAgentView: React.FC<SierraAgentViewProps> = forwardRef<WebView, Sier
 
         // Build the injection script with current storage state.
         // Storage is guaranteed to be loaded at this point.
-        const storageScript = `
-            window.__sierraSyncStorage = ${JSON.stringify(agent.getStorage().getAll())};
-            true;
-        `;
+        let initialScript = buildInitialScript(agent.getStorage().getAll(), {
+            ...agent.getInjectedConfig(),
+            accessibility,
+        });
+        if (fontFaces.length > 0) {
+            initialScript += buildFontFaceScript(fontFaces);
+        }
+
+        if (loadError && renderError) {
+            return (
+                <View style={[styles.container, style]}>
+                    {renderError({ error: loadError, retry: retryNow })}
+                </View>
+            );
+        }
 
         return (
             <View style={[styles.container, style]}>
                 <WebView
+                    key={loadCount}
                     userAgent={getUserAgent()}
-                    ref={setWebViewRef}
+                    ref={webViewRef}
                     source={{ uri: agent.getEmbedUrl() }}
                     style={styles.webView}
                     onMessage={handleMessage}
-                    injectedJavaScriptBeforeContentLoaded={storageScript}
+                    accessibilityLabel={accessibilityLabel}
+                    injectedJavaScriptBeforeContentLoaded={restrictToOrigin(
+                        initialScript,
+                        agent.getEmbedOrigin()
+                    )}
+                    onNavigationStateChange={navigation => {
+                        shownOrigin.current = getUrlOrigin(navigation.url);
+                        if (!isEmbedPageShown()) {
+                            isBridgeReady.current = false;
+                        }
+                    }}
                     onError={(error: WebViewErrorEvent) => {
                         console.log(`WebView error: ${error.nativeEvent.description}`);
                         onError?.(error);
+                        const { code, description, url } = error.nativeEvent;
+                        handleLoadError({ type: "network", code, description, url });
+                    }}
+                    onHttpError={(error: WebViewHttpErrorEvent) => {
+                        onHttpError?.(error);
+                        const { statusCode, description, url } = error.nativeEvent;
+                        handleLoadError({ type: "http", statusCode, description, url });
                     }}
-                    onHttpError={onHttpError}
+                    onLoadStart={handleLoadStart}
+                    onLoad={handleLoadEnd}
+                    onContentProcessDidTerminate={() => handleProcessTerminated("ios")}
+                    onRenderProcessGone={(event: WebViewRenderProcessGoneEvent) =>
+                        handleProcessTerminated("android", event.nativeEvent.didCrash)
+                    }
                     javaScriptEnabled={true}
                     domStorageEnabled={true}
                     startInLoadingState={true}
                     scrollEnabled={true}
-                    originWhitelist={[agent.getEmbedOrigin()]}
+                    // With a navigation policy every navigation is decided by handleShouldStartLoad,
+                    // rather than opened externally by the WebView for other origins
+                    originWhitelist={navigationPolicy ? ["*"] : [agent.getEmbedOrigin()]}
+                    onShouldStartLoadWithRequest={
+                        navigationPolicy ? handleShouldStartLoad : undefined
+                    }
                     renderLoading={renderLoading}
                     onOpenWindow={
-                        onOpenWindow
-                            ? syntheticEvent => {
-                                  onOpenWindow(syntheticEvent.nativeEvent);
-                              }
+                        onOpenWindow || navigationPolicy
+                            ? syntheticEvent =>
+                                  handleOpenWindow(syntheticEvent.nativeEvent.targetUrl)
                             : undefined
                     }
                 />
@@ -264,6 +790,22 @@ const styles = StyleSheet.create({
 
 export default SierraAgentView;
 
+function openExternally(url: string): void {
+    Linking.openURL(url).catch(error => console.warn(`Failed to open ${url}:`, error));
+}
+
+/**
+ * Get the @font-face rules for font files, with base64 data turned into data URLs
+ */
+function getFontFaces(fonts: ChatStyleFont[]): InjectedFontFace[] {
+    return fonts.map(({ family, source, format, weight, style }) => ({
+        family,
+        url: "uri" in source ? source.uri : fontDataUrl(source.base64, format),
+        weight,
+        style,
+    }));
+}
+
 /**
  * Get the user agent string for API requests
  * @returns The user agent string
@@ -1,31 +1,153 @@
 // Copyright Sierra
 
 import { Agent, AgentSessionStorage } from "./Agent";
-import { AgentConfig, AgentAPIHostType } from "./models/AgentConfig";
-import { type ChatStyleOptions } from "./models/ChatStyle";
+import { AgentConfig, AgentAPIHostType, type AgentConfigOptions } from "./models/AgentConfig";
+import { type ChatStyleOptions, type ColorScheme } from "./models/ChatStyle";
 import {
+    ConversationCallbacks,
+    ConversationTransfer,
     type ConversationOptions,
     type SecretExpiryResult,
     type SecretExpiryReplyHandler,
 } from "./models/ConversationTypes";
+import {
+    Transcript,
+    type TranscriptExportOptions,
+    type TranscriptMessage,
+    type TranscriptRequest,
+    type TranscriptRole,
+} from "./models/Transcript";
+import {
+    type AgentEventListener,
+    type AgentEventMap,
+    type AgentEventName,
+} from "./models/AgentEvents";
 import { type ChatOptions } from "./models/ChatOptions";
+import {
+    type SecretProvider,
+    type SecretProviderResult,
+    type SecretRefreshOptions,
+} from "./models/SecretProvider";
 import { PersistenceMode } from "./models/PersistenceMode";
-import { ConversationStorage, type StorageAdapter } from "./models/ConversationStorage";
-import SierraAgentView from "./components/SierraAgentView";
+import {
+    ConversationStorage,
+    type ConversationExpiryPolicy,
+    type ConversationExpiryReason,
+    type ConversationStorageOptions,
+    type PersistOperation,
+    type StorageAdapter,
+} from "./models/ConversationStorage";
+import { DEFAULT_CONVERSATION_ID, type ConversationInfo } from "./models/ConversationRegistry";
+import { STORAGE_SCHEMA_VERSION, StorageMigrationError } from "./models/StorageMigrations";
+import {
+    type StorageCipher,
+    type StorageEncryption,
+    type StorageKeyProvider,
+} from "./models/StorageEncryption";
+import {
+    BRIDGE_PROTOCOL_VERSION,
+    BridgeProtocolError,
+    type AccessibilitySettings,
+    type BridgeCommand,
+    type BridgeErrorCode,
+    type BridgeInboundMessage,
+    type InjectedEmbedConfig,
+    type UnknownBridgeMessage,
+} from "./models/BridgeProtocol";
+import {
+    DEFAULT_LOCALE,
+    detectDeviceLocale,
+    type LayoutDirection,
+    type LocalizedChatStrings,
+} from "./models/Localization";
+import {
+    validateAgentSetup,
+    type ValidationIssue,
+    type ValidationIssueCode,
+    type ValidationSeverity,
+} from "./models/Validation";
+import {
+    type NavigationDecision,
+    type NavigationPolicy,
+    type NavigationRequest,
+} from "./models/NavigationPolicy";
+import {
+    type AgentTelemetry,
+    type TelemetryEvent,
+    type TelemetryEventData,
+    type TelemetryEventName,
+} from "./models/Telemetry";
+import SierraAgentView, {
+    type AgentViewError,
+    type RetryPolicy,
+    type SierraAgentViewHandle,
+} from "./components/SierraAgentView";
 
 export {
     Agent,
     AgentConfig,
+    type AgentConfigOptions,
     type ChatOptions,
     type ChatStyleOptions,
+    type ColorScheme,
+    DEFAULT_LOCALE,
+    detectDeviceLocale,
+    type LayoutDirection,
+    type LocalizedChatStrings,
+    validateAgentSetup,
+    type ValidationIssue,
+    type ValidationIssueCode,
+    type ValidationSeverity,
+    type NavigationDecision,
+    type NavigationPolicy,
+    type NavigationRequest,
+    type AgentTelemetry,
+    type TelemetryEvent,
+    type TelemetryEventData,
+    type TelemetryEventName,
     type ConversationOptions,
+    ConversationCallbacks,
+    ConversationTransfer,
+    type AgentEventListener,
+    type AgentEventMap,
+    type AgentEventName,
+    Transcript,
+    type TranscriptExportOptions,
+    type TranscriptMessage,
+    type TranscriptRequest,
+    type TranscriptRole,
     type SecretExpiryResult,
     type SecretExpiryReplyHandler,
+    type SecretProvider,
+    type SecretProviderResult,
+    type SecretRefreshOptions,
     SierraAgentView,
+    type SierraAgentViewHandle,
+    type AgentViewError,
+    type RetryPolicy,
     AgentAPIHostType,
     PersistenceMode,
     ConversationStorage,
+    type ConversationExpiryPolicy,
+    type ConversationExpiryReason,
+    type ConversationStorageOptions,
+    type PersistOperation,
     type StorageAdapter,
+    DEFAULT_CONVERSATION_ID,
+    type ConversationInfo,
+    type StorageCipher,
+    type StorageEncryption,
+    type StorageKeyProvider,
+    STORAGE_SCHEMA_VERSION,
+    StorageMigrationError,
+    BRIDGE_PROTOCOL_VERSION,
+    BridgeProtocolError,
+    type AccessibilitySettings,
+    type BridgeCommand,
+    type BridgeErrorCode,
+    type BridgeInboundMessage,
+    type InjectedEmbedConfig,
+    type UnknownBridgeMessage,
     /** @deprecated Use ConversationStorage instead */
     AgentSessionStorage,
 };
@@ -1,6 +1,7 @@
 // Copyright Sierra
 
 import { PersistenceMode } from "./PersistenceMode";
+import { ConversationExpiryPolicy } from "./ConversationStorage";
 
 /**
  * Enum for API host environments
@@ -13,6 +14,37 @@ export enum AgentAPIHostType {
     STAGING = "staging",
     LOCAL = "local",
 }
+
+/**
+ * Additional configuration for the Sierra Agent
+ */
+export interface AgentConfigOptions {
+    /** When stored conversations expire. By default they never expire. */
+    expiry?: ConversationExpiryPolicy;
+
+    /**
+     * Base URL of the embed server, e.g. a reverse proxy or a mock server for integration tests.
+     * Takes precedence over apiHost. Must be an http or https URL without a query or fragment.
+     */
+    embedBaseURL?: string;
+
+    /**
+     * Path of the embed page relative to the base URL, where {token} is replaced with the
+     * agent token.
+     * @default "/agent/{token}/mobile"
+     */
+    embedPathTemplate?: string;
+
+    /**
+     * Post-process the complete embed URL, including its query parameters, before it is loaded.
+     * The result must be an absolute http or https URL; the WebView only allows navigation
+     * within its origin.
+     */
+    transformEmbedUrl?: (url: string) => string;
+}
+
+const DEFAULT_EMBED_PATH_TEMPLATE = "/agent/{token}/mobile";
+
 /**
  * Configuration for the Sierra Agent
  */
@@ -21,23 +53,42 @@ export class AgentConfig {
     target?: string;
     apiHost: AgentAPIHostType;
     persistence: PersistenceMode;
+    expiry?: ConversationExpiryPolicy;
+    embedBaseURL?: string;
+    embedPathTemplate: string;
+    transformEmbedUrl?: (url: string) => string;
 
     /**
      * @param token - The agent token
      * @param target - Optional release target name
      * @param apiHost - The API host to use
      * @param persistence - How conversation state is persisted (default: MEMORY)
+     * @param options - Additional configuration
+     * @throws Error if embedBaseURL or embedPathTemplate is invalid
      */
     constructor(
         token: string,
         target?: string,
         apiHost?: AgentAPIHostType,
-        persistence?: PersistenceMode
+        persistence?: PersistenceMode,
+        options: AgentConfigOptions = {}
     ) {
         this.token = token;
         this.target = target;
         this.apiHost = apiHost || AgentAPIHostType.PROD;
         this.persistence = persistence || PersistenceMode.MEMORY;
+        this.expiry = options.expiry;
+        this.embedBaseURL =
+            options.embedBaseURL !== undefined
+                ? validateEmbedBaseURL(options.embedBaseURL)
+                : undefined;
+        this.embedPathTemplate = options.embedPathTemplate ?? DEFAULT_EMBED_PATH_TEMPLATE;
+        if (!this.embedPathTemplate.startsWith("/")) {
+            throw new Error(
+                `embedPathTemplate must start with "/", got ${JSON.stringify(this.embedPathTemplate)}`
+            );
+        }
+        this.transformEmbedUrl = options.transformEmbedUrl;
     }
 
     /**
@@ -45,7 +96,9 @@ export class AgentConfig {
      * @returns The URL for the agent
      */
     get url(): string {
-        return `${this.getEmbedBaseURL(this.apiHost)}/agent/${this.token}/mobile`;
+        const baseURL = this.embedBaseURL ?? this.getEmbedBaseURL(this.apiHost);
+        const path = this.embedPathTemplate.replace(/\{token\}/g, encodeURIComponent(this.token));
+        return `${baseURL}${path}`;
     }
 
     private getEmbedBaseURL(host: AgentAPIHostType): string {
@@ -65,3 +118,39 @@ export class AgentConfig {
         }
     }
 }
+
+// Matches absolute http and https URLs, capturing the scheme, host and port
+const HTTP_URL =
+    /^(https?):\/\/(?:[^/?#\s@]*@)?(\[[^\]\s]+\]|[^/?#\s:]+)(?::(\d+))?(?:[/?#][^\s]*)?$/i;
+
+const DEFAULT_PORTS: Record<string, string> = { http: "80", https: "443" };
+
+/**
+ * Get the origin of an absolute http or https URL, e.g. "https://sierra.chat", in the form
+ * window.location.origin reports it: lowercase, and without credentials or a default port.
+ * Parsed without the URL class, whose React Native polyfill does not implement its accessors.
+ * @returns The origin, or null if the URL is not an absolute http or https URL
+ */
+export function getUrlOrigin(url: string): string | null {
+    const match = HTTP_URL.exec(url);
+    if (!match) return null;
+    const scheme = match[1].toLowerCase();
+    const port = match[3] && match[3] !== DEFAULT_PORTS[scheme] ? `:${match[3]}` : "";
+    return `${scheme}://${match[2].toLowerCase()}${port}`;
+}
+
+/**
+ * Check that a base URL is an http or https URL without a query or fragment.
+ * @returns The URL without a trailing slash
+ */
+function validateEmbedBaseURL(baseURL: string): string {
+    if (!getUrlOrigin(baseURL)) {
+        throw new Error(
+            `embedBaseURL must be an http or https URL, got ${JSON.stringify(baseURL)}`
+        );
+    }
+    if (/[?#]/.test(baseURL)) {
+        throw new Error("embedBaseURL must not have a query or fragment");
+    }
+    return baseURL.replace(/\/+$/, "");
+}
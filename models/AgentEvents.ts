@@ -0,0 +1,130 @@
+// Copyright Sierra
+
+import { ColorScheme } from "./ChatStyle";
+import { BridgeProtocolError, UnknownBridgeMessage } from "./BridgeProtocol";
+import { ConversationExpiryReason } from "./ConversationStorage";
+import { ConversationTransfer } from "./ConversationTypes";
+import { TranscriptMessage, TranscriptRequest } from "./Transcript";
+
+/**
+ * Events emitted by an Agent, keyed by event name. Conversation events carry the ID of the
+ * conversation they belong to.
+ */
+export interface AgentEventMap {
+    /** The embed page announced its bridge protocol version */
+    handshake: { conversationId: string; protocolVersion: number };
+
+    /** The embed page stored a value in the conversation storage */
+    storeValue: { conversationId: string; key: string; value: string };
+
+    /** The embed page cleared the conversation storage */
+    clearStorage: { conversationId: string };
+
+    /** The user requested a transfer to an external agent */
+    transfer: { conversationId: string; transfer: ConversationTransfer };
+
+    /** The virtual agent finished replying to the user. Not emitted for the greeting message. */
+    agentMessageEnd: { conversationId: string };
+
+    /**
+     * A message was sent or received. May be emitted again with the same message ID when the
+     * message is updated, e.g. when the chat reloads.
+     */
+    message: { conversationId: string; message: TranscriptMessage };
+
+    /** The user asked to print or save the transcript */
+    transcriptRequested: { conversationId: string; request: TranscriptRequest };
+
+    /** The conversation ended */
+    conversationEnded: { conversationId: string };
+
+    /** The embed page requested a new value for an expired secret */
+    secretExpiry: { conversationId: string; secretName: string };
+
+    /** The embed page sent a message type this version of the SDK does not recognize */
+    unknownMessage: { conversationId: string; message: UnknownBridgeMessage };
+
+    /** A message from the embed page could not be handled */
+    bridgeError: { conversationId: string; error: BridgeProtocolError };
+
+    /** A different conversation was opened, or the open conversation was deleted */
+    conversationChange: { conversationId: string };
+
+    /** The number of agent replies the user has not seen changed */
+    unreadCountChange: { unreadCount: number };
+
+    /** Conversation variables were updated with setVariables() */
+    variablesChange: { variables: Record<string, string> };
+
+    /**
+     * The WebView's content process was terminated, typically by the OS under memory pressure,
+     * and the chat was reloaded with the current conversation state.
+     * - `platform`: `ios` for onContentProcessDidTerminate, `android` for onRenderProcessGone
+     * - `didCrash`: whether the process crashed rather than being killed; unknown on iOS
+     */
+    webViewProcessTerminated: {
+        conversationId: string;
+        platform: "ios" | "android";
+        didCrash?: boolean;
+    };
+
+    /**
+     * The color scheme changed and ChatStyleOptions has colors for it. `chatStyle` is the
+     * serialized chat style, in the same format as the brand URL parameter's chatStyle.
+     */
+    chatStyleChange: { colorScheme: ColorScheme; chatStyle: string };
+
+    /** A stored conversation was cleared because it expired */
+    conversationExpired: { conversationId: string; reason: ConversationExpiryReason };
+
+    /** Persisted conversation state could not be decrypted and was reset */
+    storageDecryptionFailure: { conversationId: string; error: unknown };
+}
+
+export type AgentEventName = keyof AgentEventMap;
+
+export type AgentEventListener<E extends AgentEventName> = (event: AgentEventMap[E]) => void;
+
+/**
+ * Minimal typed event emitter for AgentEventMap
+ */
+export class AgentEventEmitter {
+    private listeners: { [E in AgentEventName]?: Set<AgentEventListener<E>> } = {};
+
+    /**
+     * Add a listener for an event.
+     * @returns A function that removes the listener
+     */
+    on<E extends AgentEventName>(event: E, listener: AgentEventListener<E>): () => void {
+        let listeners = this.listeners[event] as Set<AgentEventListener<E>> | undefined;
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners[event] = listeners as (typeof this.listeners)[E];
+        }
+        listeners.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Remove a listener added with on().
+     */
+    off<E extends AgentEventName>(event: E, listener: AgentEventListener<E>): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    /**
+     * Invoke all listeners of an event. A listener that throws does not prevent the others from
+     * being invoked.
+     */
+    emit<E extends AgentEventName>(event: E, payload: AgentEventMap[E]): void {
+        const listeners = this.listeners[event] as Set<AgentEventListener<E>> | undefined;
+        if (!listeners) return;
+        for (const listener of [...listeners]) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`Error in ${event} listener:`, error);
+            }
+        }
+    }
+}
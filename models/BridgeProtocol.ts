@@ -0,0 +1,397 @@
+// Copyright Sierra
+
+import { SecretExpiryResult } from "./ConversationTypes";
+import { TRANSCRIPT_ROLES, TranscriptMessage } from "./Transcript";
+
+/**
+ * Version of the message protocol spoken between the SDK and the embed page.
+ * Must match the version announced by web/sites/embed/pages/agent/{token}/mobile.tsx in its
+ * handshake message.
+ */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+/**
+ * Messages posted by the embed page, matching postMessage's message parameter from
+ * web/sites/embed/pages/agent/{token}/mobile.tsx
+ */
+export type BridgeInboundMessage =
+    | {
+          type: "handshake";
+          protocolVersion: number;
+      }
+    | {
+          type: "storeValue";
+          data: { key: string; value: string };
+      }
+    | {
+          type: "clearStorage";
+      }
+    | {
+          type: "transfer";
+          data: { isSynchronous?: boolean; isContactCenter?: boolean; data?: any };
+      }
+    | {
+          type: "agentMessageEnd";
+      }
+    | {
+          type: "message";
+          data: TranscriptMessage;
+      }
+    | {
+          type: "onEndChat";
+      }
+    | {
+          type: "printTranscript";
+          data?: { html?: string; filename?: string };
+      }
+    | {
+          type: "onSecretExpiry";
+          secretName: string;
+          callbackId: string;
+      };
+
+/**
+ * Commands posted to the embed page, received by its message event listener in
+ * web/sites/embed/pages/agent/{token}/mobile.tsx
+ */
+export type BridgeCommand =
+    | {
+          type: "handshake";
+      }
+    | {
+          type: "sendMessage";
+          data: { text: string };
+      }
+    | {
+          type: "endConversation";
+      }
+    | {
+          type: "startNewChat";
+      }
+    | {
+          type: "focusInput";
+      }
+    | {
+          type: "setVariables";
+          data: { variables: Record<string, string> };
+      }
+    | {
+          type: "setChatStyle";
+          data: { chatStyle: string };
+      }
+    | {
+          type: "setAccessibility";
+          data: AccessibilitySettings;
+      };
+
+/**
+ * The device's accessibility preferences, applied to the chat
+ */
+export interface AccessibilitySettings {
+    /** Multiplier applied to the chat's font sizes, from the OS text size setting */
+    fontScale: number;
+    /** Whether the user asked to minimize animations */
+    reduceMotion: boolean;
+    /** Whether the user asked for bold text (iOS only) */
+    boldText: boolean;
+}
+
+/**
+ * A well-formed message whose type this version of the SDK does not know about.
+ */
+export interface UnknownBridgeMessage {
+    type: string;
+    payload: Record<string, unknown>;
+}
+
+/**
+ * Kinds of problems detected while handling messages from the embed page.
+ * - `malformedMessage`: the message is not a JSON object with a string `type`
+ * - `invalidMessage`: the message has a known type but its fields have the wrong shape
+ * - `protocolVersionMismatch`: the embed page speaks a different protocol version than the SDK
+ */
+export type BridgeErrorCode = "malformedMessage" | "invalidMessage" | "protocolVersionMismatch";
+
+/**
+ * Error describing a message from the embed page that could not be handled.
+ */
+export class BridgeProtocolError extends Error {
+    code: BridgeErrorCode;
+    /** The message type, when it could be determined */
+    messageType?: string;
+    /** The raw message data as received from the WebView */
+    rawMessage: string;
+
+    constructor(code: BridgeErrorCode, message: string, rawMessage: string, messageType?: string) {
+        super(message);
+        this.name = "BridgeProtocolError";
+        this.code = code;
+        this.rawMessage = rawMessage;
+        this.messageType = messageType;
+    }
+}
+
+/**
+ * Result of parsing a message from the embed page
+ */
+export type BridgeParseResult =
+    | { kind: "message"; message: BridgeInboundMessage }
+    | { kind: "unknown"; message: UnknownBridgeMessage }
+    | { kind: "error"; error: BridgeProtocolError };
+
+type Payload = Record<string, unknown>;
+
+function isObject(value: unknown): value is Payload {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isOptionalBoolean(value: unknown): boolean {
+    return value === undefined || typeof value === "boolean";
+}
+
+function isOptionalString(value: unknown): boolean {
+    return value === undefined || typeof value === "string";
+}
+
+/**
+ * Per-type validators, returning a description of the problem or null if the payload is valid.
+ */
+const validators: Record<BridgeInboundMessage["type"], (payload: Payload) => string | null> = {
+    handshake: payload =>
+        typeof payload.protocolVersion === "number" ? null : "protocolVersion must be a number",
+    storeValue: payload => {
+        if (!isObject(payload.data)) return "data must be an object";
+        if (typeof payload.data.key !== "string" || payload.data.key === "") {
+            return "data.key must be a non-empty string";
+        }
+        return typeof payload.data.value === "string" ? null : "data.value must be a string";
+    },
+    clearStorage: () => null,
+    transfer: payload => {
+        if (!isObject(payload.data)) return "data must be an object";
+        if (!isOptionalBoolean(payload.data.isSynchronous)) {
+            return "data.isSynchronous must be a boolean";
+        }
+        if (!isOptionalBoolean(payload.data.isContactCenter)) {
+            return "data.isContactCenter must be a boolean";
+        }
+        return null;
+    },
+    agentMessageEnd: () => null,
+    message: payload => {
+        if (!isObject(payload.data)) return "data must be an object";
+        const { id, role, text, timestamp } = payload.data;
+        if (typeof id !== "string") return "data.id must be a string";
+        if (!TRANSCRIPT_ROLES.includes(role as TranscriptMessage["role"])) {
+            return `data.role must be one of ${TRANSCRIPT_ROLES.join(", ")}`;
+        }
+        if (typeof text !== "string") return "data.text must be a string";
+        return typeof timestamp === "number" ? null : "data.timestamp must be a number";
+    },
+    onEndChat: () => null,
+    printTranscript: payload => {
+        if (payload.data === undefined) return null;
+        if (!isObject(payload.data)) return "data must be an object";
+        if (!isOptionalString(payload.data.html)) return "data.html must be a string";
+        return isOptionalString(payload.data.filename) ? null : "data.filename must be a string";
+    },
+    onSecretExpiry: payload => {
+        if (typeof payload.secretName !== "string") return "secretName must be a string";
+        return typeof payload.callbackId === "string" ? null : "callbackId must be a string";
+    },
+};
+
+/**
+ * Parse and validate a message received from the embed page.
+ * @param raw - The message data from the WebView message event
+ * @returns The validated message, an unknown message, or the error that prevented parsing
+ */
+export function parseBridgeMessage(raw: string): BridgeParseResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error) {
+        return {
+            kind: "error",
+            error: new BridgeProtocolError("malformedMessage", `Invalid JSON: ${error}`, raw),
+        };
+    }
+
+    if (!isObject(parsed) || typeof parsed.type !== "string") {
+        return {
+            kind: "error",
+            error: new BridgeProtocolError(
+                "malformedMessage",
+                "Message must be an object with a string type",
+                raw
+            ),
+        };
+    }
+
+    const { type, ...payload } = parsed;
+    if (!Object.prototype.hasOwnProperty.call(validators, type)) {
+        return { kind: "unknown", message: { type, payload } };
+    }
+
+    const problem = validators[type as BridgeInboundMessage["type"]](parsed);
+    if (problem) {
+        return {
+            kind: "error",
+            error: new BridgeProtocolError(
+                "invalidMessage",
+                `Invalid ${type} message: ${problem}`,
+                raw,
+                type
+            ),
+        };
+    }
+
+    return { kind: "message", message: parsed as BridgeInboundMessage };
+}
+
+/**
+ * Check the protocol version announced by the embed page in its handshake.
+ * @returns An error describing the mismatch, or null if the versions match
+ */
+export function checkProtocolVersion(
+    protocolVersion: number,
+    raw: string
+): BridgeProtocolError | null {
+    if (protocolVersion === BRIDGE_PROTOCOL_VERSION) return null;
+    return new BridgeProtocolError(
+        "protocolVersionMismatch",
+        `Embed page uses bridge protocol version ${protocolVersion}, ` +
+            `but the SDK uses version ${BRIDGE_PROTOCOL_VERSION}`,
+        raw,
+        "handshake"
+    );
+}
+
+/**
+ * Serialize a command for WebView.postMessage, stamping it with the protocol version.
+ */
+export function serializeBridgeCommand(command: BridgeCommand): string {
+    return JSON.stringify({ ...command, protocolVersion: BRIDGE_PROTOCOL_VERSION });
+}
+
+/**
+ * Configuration delivered to the embed page as window.__sierraInjectedConfig before it loads,
+ * keeping it out of the embed URL (and so out of WebView history and URL logging).
+ */
+export interface InjectedEmbedConfig {
+    /** Conversation secrets, which are never included in the embed URL */
+    secrets: Record<string, string>;
+    /** Matches the brand URL parameter, set only when ChatOptions.injectConfiguration is true */
+    brand?: Record<string, unknown>;
+    /** Matches the chatInterfaceStrings URL parameter, set only when injectConfiguration is true */
+    chatInterfaceStrings?: Record<string, string>;
+    /** Conversation variables, set only when injectConfiguration is true */
+    variables?: Record<string, string>;
+    /**
+     * Chat style for the current color scheme, overriding the brand's chatStyle. Set only when
+     * ChatStyleOptions has light or dark colors.
+     */
+    chatStyle?: string;
+    /** Direction the chat is laid out in, following the locale unless ChatOptions overrides it */
+    direction: "ltr" | "rtl";
+    /** Accessibility preferences when the chat loads, set by SierraAgentView */
+    accessibility?: AccessibilitySettings;
+}
+
+/**
+ * A font registered with the embed page, with its file resolved to a URL the page can load
+ */
+export interface InjectedFontFace {
+    family: string;
+    /** A data URL or a URL the page can load */
+    url: string;
+    weight?: string | number;
+    style?: string;
+}
+
+/**
+ * Script that registers fonts with the embed page's document before it loads, as if declared
+ * with @font-face rules.
+ */
+export function buildFontFaceScript(fonts: InjectedFontFace[]): string {
+    return `
+        (function () {
+            if (!window.FontFace || !document.fonts) return;
+            ${JSON.stringify(fonts)}.forEach(function (font) {
+                var face = new FontFace(font.family, "url(" + JSON.stringify(font.url) + ")", {
+                    weight: font.weight === undefined ? "normal" : String(font.weight),
+                    style: font.style || "normal",
+                });
+                document.fonts.add(face);
+                face.load().catch(function () {});
+            });
+        })();
+        true;
+    `;
+}
+
+/**
+ * Script that announces the protocol version, delivers the injected configuration and seeds the
+ * synchronous storage before the embed page loads. Printing is routed to the app, since
+ * window.print() does nothing useful inside a WebView.
+ */
+export function buildInitialScript(
+    storage: Record<string, string>,
+    injectedConfig: InjectedEmbedConfig
+): string {
+    return `
+        window.__sierraBridgeProtocolVersion = ${BRIDGE_PROTOCOL_VERSION};
+        window.__sierraInjectedConfig = ${JSON.stringify(injectedConfig)};
+        window.__sierraSyncStorage = ${JSON.stringify(storage)};
+        window.print = function () {
+            window.ReactNativeWebView.postMessage(JSON.stringify({ type: "printTranscript" }));
+        };
+        true;
+    `;
+}
+
+/**
+ * Wrap a script so that it only runs while the WebView shows a page of the given origin.
+ * Scripts carrying conversation state or secrets must be wrapped, since a navigation policy
+ * can let other sites load in the chat's WebView.
+ * @param script - The script to run
+ * @param origin - The embed page's origin, as returned by Agent.getEmbedOrigin()
+ */
+export function restrictToOrigin(script: string, origin: string): string {
+    return `
+        if (window.location.origin === ${JSON.stringify(origin)}) {
+            ${script}
+        }
+        true;
+    `;
+}
+
+/**
+ * Script that updates a single value in the embed page's synchronous storage, initializing it if needed.
+ */
+export function buildStoreValueScript(key: string, value: string): string {
+    return `
+        window.__sierraSyncStorage = window.__sierraSyncStorage || {};
+        window.__sierraSyncStorage[${JSON.stringify(key)}] = ${JSON.stringify(value)};
+        true;
+    `;
+}
+
+/**
+ * Script that empties the embed page's synchronous storage.
+ */
+export function buildClearStorageScript(): string {
+    return `
+        window.__sierraSyncStorage = {};
+        true;
+    `;
+}
+
+/**
+ * Script that resolves a pending callback in the embed page, such as a secret refresh.
+ */
+export function buildResolveCallbackScript(callbackId: string, result: SecretExpiryResult): string {
+    return "error" in result
+        ? `window.__sierraResolveCallback(${JSON.stringify(callbackId)}, null, ${JSON.stringify(result.error)}); true;`
+        : `window.__sierraResolveCallback(${JSON.stringify(callbackId)}, ${JSON.stringify(result.value)}); true;`;
+}
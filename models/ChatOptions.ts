@@ -2,6 +2,7 @@
 
 import { ChatStyleOptions } from "./ChatStyle";
 import { ConversationOptions } from "./ConversationTypes";
+import { LayoutDirection, LocalizedChatStrings } from "./Localization";
 
 /**
  * Interface to configure custom chat options
@@ -73,6 +74,28 @@ export interface ChatOptions {
      */
     agentLeftMessage?: string;
 
+    /**
+     * Chat UI strings per locale, keyed by BCP 47 language tag (e.g. "fr", "pt-BR"). Strings are
+     * looked up for the conversation locale, then its parent locales (e.g. "pt-BR", then "pt"),
+     * then fallbackLocale. Strings set directly on ChatOptions are used when no bundle has them.
+     */
+    localizedStrings?: Record<string, LocalizedChatStrings>;
+
+    /** Locale whose localizedStrings are used when the conversation locale has none, e.g. "en" */
+    fallbackLocale?: string;
+
+    /**
+     * Use the device locale when ConversationOptions.locale is not set, instead of "en-US".
+     * @default false
+     */
+    detectDeviceLocale?: boolean;
+
+    /**
+     * Direction the chat is laid out in. Defaults to right-to-left for locales written
+     * right-to-left, such as Arabic and Hebrew.
+     */
+    layoutDirection?: LayoutDirection;
+
     /**
      * Customize the colors and other appearance of the chat UI.
      * Overridden by server-configured chat style if useConfiguredStyle is true.
@@ -85,6 +108,15 @@ export interface ChatOptions {
     /** Customization of the conversation that the controller will create. */
     conversationOptions?: ConversationOptions;
 
+    /**
+     * Deliver the brand, chat interface strings and conversation variables to the chat through a
+     * script injected before the page loads, instead of as embed URL parameters. Use this to stay
+     * within URL length limits when passing a large chat style or many variables.
+     * Conversation secrets are always delivered this way.
+     * @default false
+     */
+    injectConfiguration?: boolean;
+
     /** If true, the user will be able to save a conversation transcript via a menu item. */
     canPrintTranscript?: boolean;
 
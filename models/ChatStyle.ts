@@ -1,7 +1,13 @@
 // Copyright Sierra
 
 /**
- * Type for ChatStyleColors options.
+ * The appearance the chat is shown in, matching React Native's ColorSchemeName.
+ */
+export type ColorScheme = "light" | "dark";
+
+/**
+ * Type for ChatStyleColors options. Colors are CSS color strings, e.g. "#1a73e8",
+ * "rgba(0, 0, 0, 0.5)" or "white". Invalid colors are ignored with a warning.
  * Overridden by server-configured styles if useConfiguredStyle is true in ChatOptions.
  */
 export interface ChatStyleColors {
@@ -14,8 +20,28 @@ export interface ChatStyleColors {
     assistantBubbleText?: string;
     userBubble?: string;
     userBubbleText?: string;
+    /** Background of the message input */
+    inputBackground?: string;
+    /** Text typed in the message input */
+    inputText?: string;
+    /** Border of the message input */
+    inputBorder?: string;
+    /** Links in messages */
+    link?: string;
+    /** Background of buttons, such as suggested replies and the send button */
+    button?: string;
+    /** Text and icons on buttons */
+    buttonText?: string;
+    /** Error messages */
+    error?: string;
 }
 
+/**
+ * A font weight, as a CSS numeric weight or keyword
+ */
+export type ChatStyleFontWeight =
+    100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | "normal" | "bold";
+
 /**
  * Type for ChatStyleTypography options.
  * Overridden by server-configured styles if useConfiguredStyle is true in ChatOptions.
@@ -23,11 +49,78 @@ export interface ChatStyleColors {
 export interface ChatStyleTypography {
     /**
      * The font family, a comma-separated list of font names.
-     * Note: Only built-in system fonts are supported. Custom fonts loaded by the app are not available.
+     * Built-in system fonts are available, as are fonts registered with ChatStyleOptions.fonts.
+     * Fonts loaded by the app itself are not available to the chat.
      */
     fontFamily?: string;
-    /** The font size, in pixels. */
+    /** The font size of all text, in pixels. Overridden per level by the sizes below. */
     fontSize?: number;
+    /** The font size of the largest text, such as the title bar, in pixels */
+    fontSize900?: number;
+    /** The font size of headings within messages, in pixels */
+    fontSize750?: number;
+    /** The font size of message and input text, in pixels */
+    fontSize500?: number;
+    /** The font weight of the largest text, such as the title bar */
+    fontWeight900?: ChatStyleFontWeight;
+    /** The font weight of headings within messages */
+    fontWeight750?: ChatStyleFontWeight;
+    /** The font weight of message and input text */
+    fontWeight500?: ChatStyleFontWeight;
+}
+
+/**
+ * A font file registered with the chat, so that ChatStyleTypography.fontFamily can reference it.
+ */
+export interface ChatStyleFont {
+    /** The font family name to reference in fontFamily */
+    family: string;
+
+    /**
+     * The font file. Bundled assets (require()) are not supported, as Android release builds
+     * store them as raw resources the chat page cannot load.
+     * - { uri } - a URL the chat page can load, e.g. from a CDN allowing cross-origin requests
+     * - { base64 } - the base64-encoded font file
+     */
+    source: { uri: string } | { base64: string };
+
+    /**
+     * The format of the font file, used for base64 data
+     * @default "truetype"
+     */
+    format?: "truetype" | "opentype" | "woff" | "woff2";
+
+    /** The weight this file provides, when a family has a file per weight */
+    weight?: ChatStyleFontWeight;
+
+    /** The style this file provides */
+    style?: "normal" | "italic";
+}
+
+/**
+ * Type for ChatStyleRadii options, in pixels.
+ * Overridden by server-configured styles if useConfiguredStyle is true in ChatOptions.
+ */
+export interface ChatStyleRadii {
+    /** Corners of message bubbles */
+    bubble?: number;
+    /** Corners of the message input */
+    input?: number;
+    /** Corners of buttons */
+    button?: number;
+}
+
+/**
+ * Type for ChatStyleSpacing options, in pixels.
+ * Overridden by server-configured styles if useConfiguredStyle is true in ChatOptions.
+ */
+export interface ChatStyleSpacing {
+    /** Padding inside message bubbles */
+    bubblePadding?: number;
+    /** Vertical space between messages */
+    messageGap?: number;
+    /** Padding between the edges of the chat and its content */
+    containerPadding?: number;
 }
 
 /**
@@ -37,5 +130,196 @@ export interface ChatStyleTypography {
  */
 export interface ChatStyleOptions {
     colors?: ChatStyleColors;
+
+    /** Colors used in light mode, applied over colors */
+    light?: ChatStyleColors;
+
+    /** Colors used in dark mode, applied over colors */
+    dark?: ChatStyleColors;
+
     typography?: ChatStyleTypography;
+
+    radii?: ChatStyleRadii;
+
+    spacing?: ChatStyleSpacing;
+
+    /** Font files made available to the chat before it loads */
+    fonts?: ChatStyleFont[];
+}
+
+/**
+ * Get the colors to use for a color scheme: the scheme's palette applied over the base colors.
+ */
+export function resolveChatStyleColors(
+    chatStyle: ChatStyleOptions,
+    colorScheme: ColorScheme
+): ChatStyleColors | undefined {
+    const palette = chatStyle[colorScheme];
+    if (!palette) return chatStyle.colors;
+    return { ...chatStyle.colors, ...palette };
+}
+
+const FONT_MIME_TYPES: Record<NonNullable<ChatStyleFont["format"]>, string> = {
+    truetype: "font/ttf",
+    opentype: "font/otf",
+    woff: "font/woff",
+    woff2: "font/woff2",
+};
+
+/**
+ * Build a data URL for base64-encoded font data.
+ */
+export function fontDataUrl(base64: string, format: ChatStyleFont["format"] = "truetype"): string {
+    return `data:${FONT_MIME_TYPES[format]};base64,${base64}`;
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const COLOR_FUNCTION = /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\((.*)\)$/i;
+// A number, with an optional exponent and percentage or angle unit
+const COLOR_COMPONENT = /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?(%|deg|grad|rad|turn)?$/i;
+const PREDEFINED_COLOR_SPACES = new Set([
+    "srgb",
+    "srgb-linear",
+    "display-p3",
+    "a98-rgb",
+    "prophoto-rgb",
+    "rec2020",
+    "xyz",
+    "xyz-d50",
+    "xyz-d65",
+]);
+// CSS named colors, plus the transparent and currentcolor keywords
+const NAMED_COLORS = new Set(
+    `transparent currentcolor
+    aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue
+    blueviolet brown burlywood cadetblue chartreuse chocolate coral cornflowerblue cornsilk
+    crimson cyan darkblue darkcyan darkgoldenrod darkgray darkgreen darkgrey darkkhaki
+    darkmagenta darkolivegreen darkorange darkorchid darkred darksalmon darkseagreen
+    darkslateblue darkslategray darkslategrey darkturquoise darkviolet deeppink deepskyblue
+    dimgray dimgrey dodgerblue firebrick floralwhite forestgreen fuchsia gainsboro ghostwhite
+    gold goldenrod gray green greenyellow grey honeydew hotpink indianred indigo ivory khaki
+    lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan
+    lightgoldenrodyellow lightgray lightgreen lightgrey lightpink lightsalmon lightseagreen
+    lightskyblue lightslategray lightslategrey lightsteelblue lightyellow lime limegreen linen
+    magenta maroon mediumaquamarine mediumblue mediumorchid mediumpurple mediumseagreen
+    mediumslateblue mediumspringgreen mediumturquoise mediumvioletred midnightblue mintcream
+    mistyrose moccasin navajowhite navy oldlace olive olivedrab orange orangered orchid
+    palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff peru pink plum
+    powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon sandybrown
+    seagreen seashell sienna silver skyblue slateblue slategray slategrey snow springgreen
+    steelblue tan teal thistle tomato turquoise violet wheat white whitesmoke yellow
+    yellowgreen`.split(/\s+/)
+);
+
+/**
+ * Check whether a string is a CSS color: a hex color, a color function such as rgb(), hsl() or
+ * oklch(), or a color keyword such as "white" or "transparent".
+ */
+export function isValidColor(value: unknown): value is string {
+    if (typeof value !== "string") return false;
+    const color = value.trim();
+    return (
+        HEX_COLOR.test(color) ||
+        isValidColorFunction(color) ||
+        NAMED_COLORS.has(color.toLowerCase())
+    );
+}
+
+// Check the arguments of a color function, in the legacy comma-separated or the modern syntax
+function isValidColorFunction(color: string): boolean {
+    const match = COLOR_FUNCTION.exec(color);
+    if (!match) return false;
+    const name = match[1].toLowerCase();
+    const args = match[2].trim();
+
+    if (args.includes(",")) {
+        const components = args.split(",").map(component => component.trim());
+        return (
+            /^(rgba?|hsla?)$/.test(name) &&
+            (components.length === 3 || components.length === 4) &&
+            components.every(component => COLOR_COMPONENT.test(component))
+        );
+    }
+
+    const [channelList, alpha, ...rest] = args.split("/").map(part => part.trim());
+    const channels = channelList.split(/\s+/);
+    if (name === "color" && !PREDEFINED_COLOR_SPACES.has(channels.shift()!.toLowerCase())) {
+        return false;
+    }
+    const isComponent = (value: string) => value === "none" || COLOR_COMPONENT.test(value);
+    return (
+        rest.length === 0 &&
+        channels.length === 3 &&
+        channels.every(isComponent) &&
+        (alpha === undefined || isComponent(alpha))
+    );
+}
+
+/**
+ * Serialize chat style options to the ChatStyle type from ui/chat/chat.tsx, as passed in the
+ * brand's chatStyle. Invalid colors and sizes are dropped; validateAgentSetup reports them.
+ * @param chatStyle - The chat style options
+ * @param colorScheme - Selects the light or dark colors
+ */
+export function serializeChatStyle(chatStyle: ChatStyleOptions, colorScheme: ColorScheme): string {
+    const result: Record<string, unknown> = {
+        colors: validColors(resolveChatStyleColors(chatStyle, colorScheme)),
+    };
+
+    // Transform typography to type, setting each responsive font size
+    const { typography, radii, spacing } = chatStyle;
+    if (typography) {
+        const { fontSize, ...type } = validSizes(typography);
+        result.type = {
+            ...type,
+            fontSize,
+            fontSize900: type.fontSize900 ?? fontSize,
+            fontSize750: type.fontSize750 ?? fontSize,
+            fontSize500: type.fontSize500 ?? fontSize,
+        };
+    }
+
+    if (radii || spacing) {
+        const validRadii = validSizes(radii ?? {});
+        const validSpacing = validSizes(spacing ?? {});
+        result.layout = {
+            bubbleBorderRadius: validRadii.bubble,
+            inputBorderRadius: validRadii.input,
+            buttonBorderRadius: validRadii.button,
+            bubblePadding: validSpacing.bubblePadding,
+            messageGap: validSpacing.messageGap,
+            containerPadding: validSpacing.containerPadding,
+        };
+    }
+
+    return JSON.stringify(result);
+}
+
+function validColors(colors: ChatStyleColors | undefined): ChatStyleColors | undefined {
+    if (!colors) return undefined;
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(colors)) {
+        if (value === undefined) continue;
+        if (isValidColor(value)) {
+            result[name] = value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Check whether a chat style size, in pixels, is usable: a finite, non-negative number
+ */
+export function isValidSize(value: number): boolean {
+    return Number.isFinite(value) && value >= 0;
+}
+
+// Drop numeric options that are not valid sizes, keeping the others as is
+function validSizes<T extends object>(values: T): T {
+    const result: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(values)) {
+        if (typeof value === "number" && !isValidSize(value)) continue;
+        result[name] = value;
+    }
+    return result as T;
 }
@@ -0,0 +1,167 @@
+// Copyright Sierra
+
+import { PersistenceMode } from "./PersistenceMode";
+import {
+    ConversationExpiryReason,
+    ConversationStorage,
+    ConversationStorageOptions,
+    StorageAdapter,
+} from "./ConversationStorage";
+
+/**
+ * ID of the conversation used when no conversation ID is specified.
+ * Its state is stored under the same key as before named conversations were supported.
+ */
+export const DEFAULT_CONVERSATION_ID = "default";
+
+/**
+ * Metadata about a stored conversation
+ */
+export interface ConversationInfo {
+    id: string;
+    /** When the conversation was first opened, in milliseconds since the epoch */
+    createdAt: number;
+    /** When the conversation was last opened or stored a value, in milliseconds since the epoch */
+    lastActiveAt: number;
+}
+
+/**
+ * Options for ConversationRegistry. Storage options are applied to every conversation's storage,
+ * and callbacks are invoked with the ID of the affected conversation.
+ */
+export interface ConversationRegistryOptions extends Omit<
+    ConversationStorageOptions,
+    "onExpired" | "onDecryptionFailure" | "onActivity" | "onLoad"
+> {
+    onExpired?: (conversationId: string, reason: ConversationExpiryReason) => void;
+    onDecryptionFailure?: (conversationId: string, error: unknown) => void;
+    onLoad?: (conversationId: string, durationMs: number) => void;
+}
+
+/**
+ * Manages the named conversations of an agent, each backed by its own ConversationStorage.
+ * Conversation metadata is kept in an index that is itself a ConversationStorage, keyed by
+ * conversation ID, so it is persisted (and encrypted) the same way as conversation state.
+ */
+export class ConversationRegistry {
+    private mode: PersistenceMode;
+    private baseKey: string;
+    private adapter?: StorageAdapter;
+    private options: ConversationRegistryOptions;
+    private storages = new Map<string, ConversationStorage>();
+    private index: ConversationStorage;
+
+    /**
+     * @param mode - Persistence mode for all conversations
+     * @param baseKey - Storage key of the default conversation, used as a prefix for other keys
+     * @param adapter - Storage adapter for disk persistence
+     * @param options - Storage options and callbacks
+     */
+    constructor(
+        mode: PersistenceMode,
+        baseKey: string,
+        adapter?: StorageAdapter,
+        options: ConversationRegistryOptions = {}
+    ) {
+        this.mode = mode;
+        this.baseKey = baseKey;
+        this.adapter = adapter;
+        this.options = options;
+
+        // The index outlives any single conversation, so it never expires itself
+        const { onExpired, onDecryptionFailure, onLoad, expiry, ...storageOptions } = options;
+        this.index = new ConversationStorage(
+            mode,
+            `${baseKey}:conversations`,
+            adapter,
+            storageOptions
+        );
+    }
+
+    /**
+     * Get the storage for a conversation, creating it if needed.
+     * @param id - The conversation ID
+     */
+    getStorage(id: string): ConversationStorage {
+        let storage = this.storages.get(id);
+        if (!storage) {
+            // Encoded under their own prefix, so no ID can collide with the index's key
+            const key =
+                id === DEFAULT_CONVERSATION_ID
+                    ? this.baseKey
+                    : `${this.baseKey}:c:${encodeURIComponent(id)}`;
+            const { onExpired, onDecryptionFailure, onLoad, ...storageOptions } = this.options;
+            storage = new ConversationStorage(this.mode, key, this.adapter, {
+                ...storageOptions,
+                onExpired: onExpired && (reason => onExpired(id, reason)),
+                onDecryptionFailure:
+                    onDecryptionFailure && (error => onDecryptionFailure(id, error)),
+                onLoad: onLoad && (durationMs => onLoad(id, durationMs)),
+                onActivity: () => this.touch(id),
+            });
+            this.storages.set(id, storage);
+        }
+        return storage;
+    }
+
+    /**
+     * Record that a conversation was opened, adding it to the index if needed.
+     * @param id - The conversation ID
+     */
+    async open(id: string): Promise<void> {
+        await this.index.waitForLoad();
+        this.touch(id);
+    }
+
+    /**
+     * List all conversations in the index, most recently active first.
+     */
+    async list(): Promise<ConversationInfo[]> {
+        await this.index.waitForLoad();
+        const conversations: ConversationInfo[] = [];
+        for (const value of Object.values(this.index.getAll())) {
+            try {
+                conversations.push(JSON.parse(value) as ConversationInfo);
+            } catch (error) {
+                console.warn("Ignoring unreadable conversation metadata:", error);
+            }
+        }
+        return conversations.sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+    }
+
+    /**
+     * Write pending changes of all conversations and the index through the StorageAdapter.
+     */
+    async flush(): Promise<void> {
+        const storages = [this.index, ...this.storages.values()];
+        await Promise.all(storages.map(storage => storage.flush()));
+    }
+
+    /**
+     * Clear a conversation's state and remove it from the index.
+     * @param id - The conversation ID
+     */
+    async delete(id: string): Promise<void> {
+        await this.index.waitForLoad();
+        const storage = this.getStorage(id);
+        await storage.waitForLoad();
+        storage.clear();
+        this.index.removeItem(id);
+        await Promise.all([storage.flush(), this.index.flush()]);
+    }
+
+    private touch(id: string): void {
+        const now = Date.now();
+        const existing = this.index.getItem(id);
+        let createdAt = now;
+        if (existing) {
+            try {
+                createdAt = (JSON.parse(existing) as ConversationInfo).createdAt;
+            } catch (error) {
+                console.warn("Replacing unreadable conversation metadata:", error);
+            }
+        }
+        const info: ConversationInfo = { id, createdAt, lastActiveAt: now };
+        this.index.setItem(id, JSON.stringify(info));
+    }
+}
@@ -1,6 +1,12 @@
 // Copyright Sierra
 
 import { PersistenceMode } from "./PersistenceMode";
+import { StorageEncryption } from "./StorageEncryption";
+import {
+    PersistedConversationState,
+    STORAGE_SCHEMA_VERSION,
+    migratePersistedState,
+} from "./StorageMigrations";
 
 /**
  * Interface for async key-value storage adapters.
@@ -12,6 +18,75 @@ export interface StorageAdapter {
     removeItem(key: string): Promise<void>;
 }
 
+/**
+ * Policy for expiring stored conversations. Expired state is cleared by waitForLoad().
+ */
+export interface ConversationExpiryPolicy {
+    /** Maximum age of a conversation in milliseconds, measured from its first stored value */
+    maxAgeMs?: number;
+
+    /** Maximum time in milliseconds since the conversation last stored a value */
+    idleTimeoutMs?: number;
+}
+
+/**
+ * Why a stored conversation was expired.
+ * - `maxAge`: the conversation is older than ConversationExpiryPolicy.maxAgeMs
+ * - `idle`: the conversation has been inactive for longer than ConversationExpiryPolicy.idleTimeoutMs
+ */
+export type ConversationExpiryReason = "maxAge" | "idle";
+
+/**
+ * Options for ConversationStorage
+ */
+export interface ConversationStorageOptions {
+    /** Encrypts state before it is written through the StorageAdapter (DISK mode only) */
+    encryption?: StorageEncryption;
+
+    /**
+     * Invoked when persisted state could not be decrypted, e.g. after a key rotation.
+     * The undecryptable state has already been discarded and the conversation starts fresh.
+     * Not invoked when the key provider fails: the stored state is then kept, and the
+     * conversation starts empty without overwriting it.
+     */
+    onDecryptionFailure?: (error: unknown) => void;
+
+    /** When stored conversations expire */
+    expiry?: ConversationExpiryPolicy;
+
+    /** Invoked when waitForLoad() clears a conversation because it expired */
+    onExpired?: (reason: ConversationExpiryReason) => void;
+
+    /**
+     * Invoked once when state has been loaded from disk (DISK mode only), with the time in
+     * milliseconds loading took
+     */
+    onLoad?: (durationMs: number) => void;
+
+    /** Invoked whenever a value is stored */
+    onActivity?: () => void;
+
+    /**
+     * Delay in milliseconds before changes are written through the StorageAdapter, so that bursts
+     * of changes are written once. Call flush() to write pending changes immediately.
+     * @default 0
+     */
+    writeDebounceMs?: number;
+
+    /**
+     * Invoked when writing or clearing persisted state fails.
+     * Failures are logged with console.warn when not provided.
+     */
+    onPersistError?: (error: unknown, operation: PersistOperation) => void;
+}
+
+/**
+ * Operations performed against the StorageAdapter when state changes.
+ * - `write`: the full state is written
+ * - `clear`: the persisted state is removed
+ */
+export type PersistOperation = "write" | "clear";
+
 /**
  * Manages conversation state storage with pluggable backing stores based on persistence mode.
  *
@@ -22,41 +97,222 @@ export interface StorageAdapter {
 export class ConversationStorage {
     private mode: PersistenceMode;
     private cache: Record<string, string> = {};
+    private createdAt: number | null = null;
+    private lastActiveAt: number | null = null;
     private adapter?: StorageAdapter;
     private storageKey: string;
     private loadPromise: Promise<void> | null = null;
+    private options: ConversationStorageOptions;
+    // Writes are serialized on this chain, and only the latest pending operation is performed
+    private writeChain: Promise<void>;
+    private pendingOperation: PersistOperation | null = null;
+    private isDrainQueued = false;
+    private writeTimer: ReturnType<typeof setTimeout> | null = null;
+    // Set when the encryption key was unavailable at load, so the stored state is not overwritten
+    private isStoredStateUnread = false;
 
-    constructor(mode: PersistenceMode, storageKey: string, adapter?: StorageAdapter) {
+    constructor(
+        mode: PersistenceMode,
+        storageKey: string,
+        adapter?: StorageAdapter,
+        options: ConversationStorageOptions = {}
+    ) {
         this.mode = mode;
         this.storageKey = storageKey;
         this.adapter = adapter;
+        this.options = options;
 
         if (mode === PersistenceMode.DISK && adapter) {
             this.loadPromise = this.loadFromDisk();
         }
+        this.writeChain = this.loadPromise ?? Promise.resolve();
     }
 
     private async loadFromDisk(): Promise<void> {
+        const startedAt = Date.now();
         try {
             const stored = await this.adapter!.getItem(this.storageKey);
             if (stored) {
-                const parsed: unknown = JSON.parse(stored);
-                if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-                    this.cache = parsed as Record<string, string>;
-                }
+                const parsed = await this.parseStored(stored);
+                if (parsed === undefined) return;
+                const state = migratePersistedState(parsed);
+                this.cache = state.values;
+                this.createdAt = state.createdAt;
+                this.lastActiveAt = state.lastActiveAt;
             }
         } catch (error) {
             console.warn("Failed to load conversation storage from disk:", error);
+        } finally {
+            this.options.onLoad?.(Date.now() - startedAt);
         }
     }
 
     /**
-     * Wait for storage to finish loading from disk.
-     * Returns immediately for NONE and MEMORY modes.
+     * Decrypt and parse stored state.
+     * @returns The parsed state, or undefined if it cannot be read and the conversation starts empty
+     */
+    private async parseStored(stored: string): Promise<unknown> {
+        const { encryption } = this.options;
+        if (!encryption) return JSON.parse(stored);
+
+        // A key provider failure is often temporary (e.g. the iOS keychain before first unlock),
+        // so keep the stored state for a later launch rather than treating it as undecryptable
+        let key: string;
+        try {
+            key = await encryption.keyProvider.getKey();
+        } catch (error) {
+            this.isStoredStateUnread = true;
+            console.warn("Failed to get the storage encryption key, starting empty:", error);
+            return undefined;
+        }
+
+        if (stored.startsWith(ENCRYPTED_PREFIX)) {
+            try {
+                const ciphertext = stored.slice(ENCRYPTED_PREFIX.length);
+                return JSON.parse(await encryption.cipher.decrypt(ciphertext, key));
+            } catch (error) {
+                await this.handleDecryptionFailure(error);
+                return undefined;
+            }
+        }
+
+        // Unmarked state is either ciphertext written before encrypted state was marked, or plain
+        // JSON written before encryption was enabled. Either way, rewrite it marked.
+        let decryptError: unknown;
+        try {
+            const parsed: unknown = JSON.parse(await encryption.cipher.decrypt(stored, key));
+            this.schedulePersist("write");
+            return parsed;
+        } catch (error) {
+            decryptError = error;
+        }
+        const plaintext = parsePlaintextState(stored);
+        if (plaintext !== undefined) {
+            this.schedulePersist("write");
+            return plaintext;
+        }
+
+        await this.handleDecryptionFailure(decryptError);
+        return undefined;
+    }
+
+    private async handleDecryptionFailure(error: unknown): Promise<void> {
+        this.resetState();
+        try {
+            await this.adapter!.removeItem(this.storageKey);
+        } catch (removeError) {
+            console.warn("Failed to clear undecryptable conversation storage:", removeError);
+        }
+        if (this.options.onDecryptionFailure) {
+            this.options.onDecryptionFailure(error);
+        } else {
+            console.warn("Failed to decrypt conversation storage, starting fresh:", error);
+        }
+    }
+
+    private async encrypt(plaintext: string): Promise<string> {
+        const { encryption } = this.options;
+        if (!encryption) return plaintext;
+        const key = await encryption.keyProvider.getKey();
+        return ENCRYPTED_PREFIX + (await encryption.cipher.encrypt(plaintext, key));
+    }
+
+    private async persist(): Promise<void> {
+        const state: PersistedConversationState = {
+            version: STORAGE_SCHEMA_VERSION,
+            values: this.cache,
+            createdAt: this.createdAt,
+            lastActiveAt: this.lastActiveAt,
+        };
+        const serialized = await this.encrypt(JSON.stringify(state));
+        await this.adapter!.setItem(this.storageKey, serialized);
+    }
+
+    private schedulePersist(operation: PersistOperation): void {
+        if (this.mode !== PersistenceMode.DISK || !this.adapter) return;
+        this.pendingOperation = operation;
+
+        const debounceMs = this.options.writeDebounceMs ?? 0;
+        if (debounceMs <= 0) {
+            this.drain();
+            return;
+        }
+        if (this.writeTimer) {
+            clearTimeout(this.writeTimer);
+        }
+        this.writeTimer = setTimeout(() => this.drain(), debounceMs);
+    }
+
+    private drain(): Promise<void> {
+        if (this.writeTimer) {
+            clearTimeout(this.writeTimer);
+            this.writeTimer = null;
+        }
+        if (this.pendingOperation && !this.isDrainQueued) {
+            this.isDrainQueued = true;
+            this.writeChain = this.writeChain.then(() => this.performPendingOperation());
+        }
+        return this.writeChain;
+    }
+
+    private async performPendingOperation(): Promise<void> {
+        const operation = this.pendingOperation;
+        this.pendingOperation = null;
+        this.isDrainQueued = false;
+        if (!operation) return;
+
+        // Writing now would replace state that could not be read at load with this session's state
+        if (operation === "write" && this.isStoredStateUnread) return;
+
+        try {
+            if (operation === "clear") {
+                await this.adapter!.removeItem(this.storageKey);
+            } else {
+                await this.persist();
+            }
+        } catch (error) {
+            if (this.options.onPersistError) {
+                this.options.onPersistError(error, operation);
+            } else {
+                console.warn(`Failed to ${operation} conversation storage:`, error);
+            }
+        }
+    }
+
+    private resetState(): void {
+        this.cache = {};
+        this.createdAt = null;
+        this.lastActiveAt = null;
+    }
+
+    private getExpiryReason(now: number): ConversationExpiryReason | null {
+        const { expiry } = this.options;
+        if (!expiry) return null;
+        if (expiry.maxAgeMs != null && this.createdAt != null) {
+            if (now - this.createdAt >= expiry.maxAgeMs) return "maxAge";
+        }
+        if (expiry.idleTimeoutMs != null && this.lastActiveAt != null) {
+            if (now - this.lastActiveAt >= expiry.idleTimeoutMs) return "idle";
+        }
+        return null;
+    }
+
+    private expireIfNeeded(): void {
+        if (this.mode === PersistenceMode.NONE) return;
+        const reason = this.getExpiryReason(Date.now());
+        if (reason) {
+            this.clear();
+            this.options.onExpired?.(reason);
+        }
+    }
+
+    /**
+     * Wait for storage to finish loading from disk, then clear the conversation if it has expired.
+     * Returns immediately for NONE mode.
      * For DISK mode, resolves when the initial load completes.
      */
     waitForLoad(): Promise<void> {
-        return this.loadPromise ?? Promise.resolve();
+        return (this.loadPromise ?? Promise.resolve()).then(() => this.expireIfNeeded());
     }
 
     /**
@@ -77,23 +333,38 @@ export class ConversationStorage {
     setItem(key: string, value: string): void {
         if (this.mode === PersistenceMode.NONE) return;
         this.cache[key] = value;
-        if (this.mode === PersistenceMode.DISK && this.adapter) {
-            this.adapter.setItem(this.storageKey, JSON.stringify(this.cache)).catch(error => {
-                console.warn("Failed to persist conversation storage:", error);
-            });
-        }
+        this.lastActiveAt = Date.now();
+        this.createdAt = this.createdAt ?? this.lastActiveAt;
+        this.schedulePersist("write");
+        this.options.onActivity?.();
+    }
+
+    /**
+     * Remove a single value.
+     * @param key The key to remove
+     */
+    removeItem(key: string): void {
+        if (this.mode === PersistenceMode.NONE || !(key in this.cache)) return;
+        delete this.cache[key];
+        this.schedulePersist("write");
     }
 
     /**
      * Clear all stored values.
      */
     clear(): void {
-        this.cache = {};
-        if (this.mode === PersistenceMode.DISK && this.adapter) {
-            this.adapter.removeItem(this.storageKey).catch(error => {
-                console.warn("Failed to clear conversation storage:", error);
-            });
-        }
+        this.resetState();
+        this.isStoredStateUnread = false;
+        this.schedulePersist("clear");
+    }
+
+    /**
+     * Write any pending changes through the StorageAdapter.
+     * Resolves once all changes made so far have been persisted (or have failed to persist).
+     * Resolves immediately for NONE and MEMORY modes.
+     */
+    flush(): Promise<void> {
+        return this.drain();
     }
 
     /**
@@ -104,3 +375,56 @@ export class ConversationStorage {
         return { ...this.cache };
     }
 }
+
+// Marks state written encrypted, so it is never mistaken for state written before encryption
+const ENCRYPTED_PREFIX = "sierra-encrypted:";
+
+// Keys of the JSON envelopes ciphers commonly write, which never appear in unencrypted state
+const CIPHER_ENVELOPE_KEYS = new Set([
+    "iv",
+    "nonce",
+    "salt",
+    "tag",
+    "authTag",
+    "mac",
+    "ct",
+    "ciphertext",
+    "cipherText",
+]);
+
+/**
+ * Parse state written before encryption was enabled: a state envelope with string values, or a
+ * legacy map of string values that does not look like a cipher's output.
+ * @returns The parsed state, or undefined if the stored string is not recognizably unencrypted
+ */
+function parsePlaintextState(stored: string): Record<string, unknown> | undefined {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stored);
+    } catch (error) {
+        return undefined;
+    }
+    if (!isRecord(parsed)) return undefined;
+
+    if ("values" in parsed) {
+        const isTimestamp = (value: unknown) => value == null || typeof value === "number";
+        const isEnvelope =
+            isRecord(parsed.values) &&
+            hasOnlyStringValues(parsed.values) &&
+            isTimestamp(parsed.createdAt) &&
+            isTimestamp(parsed.lastActiveAt);
+        return isEnvelope ? parsed : undefined;
+    }
+    const isLegacyMap =
+        hasOnlyStringValues(parsed) &&
+        !Object.keys(parsed).some(key => CIPHER_ENVELOPE_KEYS.has(key));
+    return isLegacyMap ? parsed : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function hasOnlyStringValues(record: Record<string, unknown>): boolean {
+    return Object.values(record).every(value => typeof value === "string");
+}
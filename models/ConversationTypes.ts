@@ -76,7 +76,7 @@ export type SecretExpiryResult = { value: string | null } | { error: string };
 export type SecretExpiryReplyHandler = (result: SecretExpiryResult) => void;
 
 /**
- * Callbacks for conversation events
+ * Callbacks for conversation events. Subclass and register with Agent.addCallbacks().
  */
 export class ConversationCallbacks {
     /**
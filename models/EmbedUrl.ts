@@ -0,0 +1,137 @@
+// Copyright Sierra
+
+import { AgentConfig, getUrlOrigin } from "./AgentConfig";
+import { ChatOptions } from "./ChatOptions";
+import { ColorScheme, serializeChatStyle } from "./ChatStyle";
+
+/**
+ * Build the URL of the embed page for an agent, carrying the chat options that are passed as
+ * query parameters.
+ * @param config - The agent configuration
+ * @param options - The chat options, already localized
+ * @param locale - The locale the chat is shown in
+ * @param colorScheme - The color scheme the chat style is serialized for
+ * @returns The embed URL, after config.transformEmbedUrl when set
+ */
+export function buildEmbedUrl(
+    config: AgentConfig,
+    options: ChatOptions,
+    locale: string,
+    colorScheme: ColorScheme
+): string {
+    const params = new URLSearchParams();
+
+    // Add the specific release target for the agent
+    if (config.target) {
+        params.append("target", config.target);
+    }
+
+    if (!options.injectConfiguration) {
+        params.append("brand", JSON.stringify(buildBrand(options, colorScheme)));
+        params.append("chatInterfaceStrings", JSON.stringify(buildChatInterfaceStrings(options)));
+    }
+
+    if (options.hideTitleBar) {
+        params.append("hideTitleBar", "true");
+    }
+
+    // Use custom persistence mode to store and load chat session data across views
+    params.append("persistenceMode", "custom");
+
+    const conversationOptions = options.conversationOptions ?? {};
+
+    params.append("locale", locale);
+    // Add variables. Secrets are never added to the URL, see Agent.buildInjectedConfig().
+    if (conversationOptions.variables && !options.injectConfiguration) {
+        for (const [name, value] of Object.entries(conversationOptions.variables)) {
+            params.append("variable", `${name}:${value}`);
+        }
+    }
+
+    const customGreeting = conversationOptions.customGreeting ?? options.greetingMessage;
+    if (customGreeting) {
+        params.append("greeting", customGreeting);
+    }
+
+    if (conversationOptions.enableContactCenter) {
+        params.append("enableContactCenter", "true");
+    }
+
+    if (options.canPrintTranscript) {
+        params.append("canPrintTranscript", "true");
+    }
+
+    if (options.canEndConversation) {
+        params.append("canEndConversation", "true");
+    }
+
+    if (options.canStartNewChat) {
+        params.append("canStartNewChat", "true");
+    }
+
+    if (options.startAtTop) {
+        params.append("startAtTop", "true");
+    }
+
+    if (options.pinDisclosure) {
+        params.append("pinDisclosure", "true");
+    }
+
+    if (options.useConfiguredChatStrings) {
+        params.append("useConfiguredChatStrings", "true");
+    }
+
+    if (options.useConfiguredStyle) {
+        params.append("useConfiguredStyle", "true");
+    }
+
+    const url = `${config.url}?${params.toString()}`;
+    if (!config.transformEmbedUrl) return url;
+
+    const transformed = config.transformEmbedUrl(url);
+    if (!getUrlOrigin(transformed)) {
+        throw new Error(
+            `transformEmbedUrl must return an http or https URL, got ${JSON.stringify(transformed)}`
+        );
+    }
+    return transformed;
+}
+
+/**
+ * Build the brand passed to the embed page, in the URL or the injected configuration.
+ * Should match the Brand type from bots/useChat.tsx.
+ * @param options - The chat options
+ * @param colorScheme - The color scheme the chat style is serialized for
+ */
+export function buildBrand(
+    options: ChatOptions,
+    colorScheme: ColorScheme
+): Record<string, unknown> {
+    return {
+        botName: options.name ?? "Your virtual assistant",
+        greetingMessage: options.greetingMessage ?? "How can I help you today?",
+        errorMessage: options.errorMessage ?? "Oops, an error was encountered! Please try again.",
+        agentTransferWaitingMessage: options.agentTransferWaitingMessage ?? "Waiting for agent…",
+        agentJoinedMessage: options.agentJoinedMessage ?? "Agent connected",
+        agentLeftMessage: options.agentLeftMessage ?? "Agent disconnected",
+        chatStyle: options.chatStyle
+            ? serializeChatStyle(options.chatStyle, colorScheme)
+            : undefined,
+        ...(options.showTimestamps != null && { showTimestamps: options.showTimestamps }),
+        ...(options.showSpeakerLabels != null && { showBotName: options.showSpeakerLabels }),
+        messageLabelPlacement: options.messageLabelPlacement ?? "",
+    };
+}
+
+/**
+ * Build the chat interface strings passed to the embed page, a subset of the ChatUiStrings type
+ * from chat/ui-strings.ts
+ * @param options - The chat options
+ */
+export function buildChatInterfaceStrings(options: ChatOptions): Record<string, string> {
+    return {
+        inputPlaceholder: options.inputPlaceholder ?? "",
+        disclosure: options.disclosure ?? "",
+        conversationEndedMessage: options.conversationEndedMessage ?? "",
+    };
+}
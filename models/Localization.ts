@@ -0,0 +1,118 @@
+// Copyright Sierra
+
+import { ChatOptions } from "./ChatOptions";
+
+/**
+ * Locale used when none is configured and the device locale is not detected
+ */
+export const DEFAULT_LOCALE = "en-US";
+
+/**
+ * The chat UI strings of ChatOptions that can be localized
+ */
+export type LocalizedChatStrings = Partial<
+    Pick<
+        ChatOptions,
+        | "name"
+        | "greetingMessage"
+        | "disclosure"
+        | "errorMessage"
+        | "inputPlaceholder"
+        | "conversationEndedMessage"
+        | "agentTransferWaitingMessage"
+        | "agentJoinedMessage"
+        | "agentLeftMessage"
+    >
+>;
+
+/**
+ * Direction the chat is laid out in
+ */
+export type LayoutDirection = "ltr" | "rtl";
+
+// Languages written right-to-left, by ISO 639 code
+const RTL_LANGUAGES = new Set(["ar", "dv", "fa", "he", "iw", "ku", "ps", "sd", "ug", "ur", "yi"]);
+
+/**
+ * Get the locale of the device, e.g. "fr-CA".
+ * @returns The device locale, or DEFAULT_LOCALE if it cannot be determined
+ */
+export function detectDeviceLocale(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().locale || DEFAULT_LOCALE;
+    } catch (error) {
+        console.warn("Failed to detect device locale:", error);
+        return DEFAULT_LOCALE;
+    }
+}
+
+/**
+ * Get the locales to look up strings in for a locale, from most to least specific.
+ * For example "zh-Hant-TW" falls back to "zh-Hant", then "zh", then the fallback locale.
+ * @param locale - A BCP 47 language tag
+ * @param fallbackLocale - Locale tried after the locale and its parents
+ */
+export function getLocaleFallbackChain(locale: string, fallbackLocale?: string): string[] {
+    const chain: string[] = [];
+    const subtags = locale.split(/[-_]/);
+    for (let length = subtags.length; length > 0; length--) {
+        chain.push(subtags.slice(0, length).join("-"));
+    }
+    if (fallbackLocale) {
+        for (const tag of getLocaleFallbackChain(fallbackLocale)) {
+            if (!chain.includes(tag)) chain.push(tag);
+        }
+    }
+    return chain;
+}
+
+/**
+ * Get the direction a locale is written in.
+ * @param locale - A BCP 47 language tag
+ */
+export function getLayoutDirection(locale: string): LayoutDirection {
+    const language = locale.split(/[-_]/)[0].toLowerCase();
+    return RTL_LANGUAGES.has(language) ? "rtl" : "ltr";
+}
+
+/**
+ * Get the locale the chat is shown in: ConversationOptions.locale, otherwise the device locale
+ * if ChatOptions.detectDeviceLocale is set, otherwise DEFAULT_LOCALE.
+ */
+export function resolveLocale(options: ChatOptions): string {
+    const locale = options.conversationOptions?.locale;
+    if (locale) return locale;
+    return options.detectDeviceLocale ? detectDeviceLocale() : DEFAULT_LOCALE;
+}
+
+/**
+ * Apply the strings for a locale from ChatOptions.localizedStrings. Each string is looked up
+ * along the locale's fallback chain, keeping the value set directly on ChatOptions when no
+ * bundle has it.
+ * @param options - The chat options
+ * @param locale - The locale the chat is shown in
+ * @returns The options with localized strings
+ */
+export function localizeChatOptions(options: ChatOptions, locale: string): ChatOptions {
+    const bundles = options.localizedStrings;
+    if (!bundles) return options;
+
+    // Match bundle keys case-insensitively, and with either separator
+    const normalize = (tag: string) => tag.replace(/_/g, "-").toLowerCase();
+    const bundlesByTag = new Map(
+        Object.entries(bundles).map(([tag, strings]) => [normalize(tag), strings])
+    );
+
+    const localized = { ...options };
+    const chain = getLocaleFallbackChain(locale, options.fallbackLocale).reverse();
+    for (const tag of chain) {
+        const strings = bundlesByTag.get(normalize(tag));
+        if (!strings) continue;
+        for (const [key, value] of Object.entries(strings)) {
+            if (value !== undefined) {
+                (localized as Record<string, unknown>)[key] = value;
+            }
+        }
+    }
+    return localized;
+}
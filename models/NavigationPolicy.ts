@@ -0,0 +1,111 @@
+// Copyright Sierra
+
+import { getUrlOrigin } from "./AgentConfig";
+
+/**
+ * What to do with a navigation inside the chat
+ * - `allow`: load the URL in the chat's WebView
+ * - `external`: open the URL outside the app, in the system browser or the app registered for it
+ * - `deepLink`: hand the URL to NavigationPolicy.onDeepLink to open a screen of the app
+ * - `block`: ignore the navigation
+ */
+export type NavigationDecision = "allow" | "external" | "deepLink" | "block";
+
+/**
+ * A navigation the chat's WebView is about to perform, e.g. because the user tapped a link
+ */
+export interface NavigationRequest {
+    url: string;
+    /** False for navigations inside frames of the chat page */
+    isTopFrame: boolean;
+}
+
+/**
+ * Controls how links and other navigations inside the chat are handled. By default, the chat
+ * stays on the embed page: links to other sites and to other apps open externally, and about:,
+ * data: and blob: pages are blocked.
+ */
+export interface NavigationPolicy {
+    /**
+     * Domains whose pages load inside the chat, in addition to the embed page's own origin.
+     * A domain also matches its subdomains, e.g. "example.com" matches "help.example.com".
+     */
+    allowedDomains?: string[];
+
+    /** URL schemes routed to onDeepLink, e.g. ["myapp"] for links like myapp://orders/123 */
+    deepLinkSchemes?: string[];
+
+    /** Domains whose http and https links are routed to onDeepLink, e.g. for universal links */
+    deepLinkDomains?: string[];
+
+    /**
+     * Decide what to do with a navigation, overriding the classification from the options
+     * above. Return undefined to use that classification.
+     */
+    onNavigationRequest?: (
+        request: NavigationRequest,
+        defaultDecision: NavigationDecision
+    ) => NavigationDecision | undefined;
+
+    /**
+     * Open a deep link in the app. Deep links are opened with Linking.openURL when not provided.
+     */
+    onDeepLink?: (url: string) => void;
+}
+
+/**
+ * Classify a navigation according to a navigation policy.
+ * @param request - The navigation
+ * @param embedOrigin - Origin of the embed page, whose pages always load inside the chat
+ * @param policy - The navigation policy
+ * @returns What to do with the navigation
+ */
+export function decideNavigation(
+    request: NavigationRequest,
+    embedOrigin: string,
+    policy: NavigationPolicy
+): NavigationDecision {
+    const defaultDecision = classifyNavigation(request, embedOrigin, policy);
+    return policy.onNavigationRequest?.(request, defaultDecision) ?? defaultDecision;
+}
+
+function classifyNavigation(
+    { url, isTopFrame }: NavigationRequest,
+    embedOrigin: string,
+    policy: NavigationPolicy
+): NavigationDecision {
+    // Frames embedded by the chat page, such as payment forms, are up to the page
+    if (!isTopFrame) return "allow";
+
+    // Pages without an origin of their own would replace the chat with no way back
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1].toLowerCase();
+    if (scheme === "about" || scheme === "data" || scheme === "blob") return "block";
+    if (scheme && policy.deepLinkSchemes?.some(s => s.toLowerCase() === scheme)) {
+        return "deepLink";
+    }
+
+    const origin = getUrlOrigin(url);
+    if (!origin) return "external";
+    if (origin.toLowerCase() === embedOrigin.toLowerCase()) return "allow";
+
+    const host = getHost(origin);
+    if (matchesDomain(host, policy.deepLinkDomains)) return "deepLink";
+    if (matchesDomain(host, policy.allowedDomains)) return "allow";
+    return "external";
+}
+
+// The host name of an origin, without credentials or port
+function getHost(origin: string): string {
+    const authority = origin.slice(origin.indexOf("//") + 2);
+    return authority
+        .slice(authority.lastIndexOf("@") + 1)
+        .replace(/:\d+$/, "")
+        .toLowerCase();
+}
+
+function matchesDomain(host: string, domains: string[] | undefined): boolean {
+    return (domains ?? []).some(domain => {
+        const normalized = domain.toLowerCase().replace(/^\*?\./, "");
+        return host === normalized || host.endsWith(`.${normalized}`);
+    });
+}
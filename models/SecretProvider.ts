@@ -0,0 +1,248 @@
+// Copyright Sierra
+
+import { SecretExpiryResult } from "./ConversationTypes";
+
+/**
+ * Result of fetching a secret from a SecretProvider. Same as SecretExpiryResult, except that a
+ * value may carry the time it expires so that it can be refreshed ahead of time.
+ * - { value, expiresAt? } - the secret value, and optionally when it expires (milliseconds since the epoch)
+ * - { value: null } - if the secret cannot be provided due to a known condition (e.g. the user has signed out)
+ * - { error: errorMessage } - if the secret cannot be fetched right now, but the request should be retried
+ */
+export type SecretProviderResult = { value: string | null; expiresAt?: number } | { error: string };
+
+/**
+ * Interface for supplying conversation secrets to an Agent
+ */
+export interface SecretProvider {
+    /** Names of the secrets fetched before the chat loads and delivered with the initial configuration */
+    secretNames: string[];
+
+    /**
+     * Fetch the current value of a secret
+     * @param name - The name of the secret
+     */
+    getSecret(name: string): Promise<SecretProviderResult>;
+}
+
+/**
+ * Options controlling how secrets are refreshed
+ */
+export interface SecretRefreshOptions {
+    /**
+     * How long before a secret expires to refresh it in the background, in milliseconds.
+     * Secrets are refreshed ahead of expiry only while a SierraAgentView shows the agent's chat.
+     * @default 60000
+     */
+    refreshLeadMs?: number;
+
+    /**
+     * How many times to retry a fetch that returned an error or timed out. Fetches before the
+     * chat loads are not retried, so that they do not hold up the chat.
+     * @default 3
+     */
+    maxRetries?: number;
+
+    /**
+     * Delay before the first retry in milliseconds, doubled for each following retry
+     * @default 1000
+     */
+    retryBaseDelayMs?: number;
+
+    /**
+     * How long to wait for a secret before giving up, in milliseconds. Applies to each fetch from
+     * a SecretProvider, and to onSecretExpiry handlers replying.
+     * @default 10000
+     */
+    timeoutMs?: number;
+}
+
+interface CachedSecret {
+    value: string | null;
+    expiresAt?: number;
+}
+
+/**
+ * Fetches secrets from a SecretProvider, caching the values, refreshing them shortly before they
+ * expire and retrying failed fetches with exponential backoff.
+ */
+export class SecretManager {
+    private provider: SecretProvider;
+    private options: Required<SecretRefreshOptions>;
+    private cache = new Map<string, CachedSecret>();
+    private pendingFetches = new Map<string, Promise<SecretExpiryResult>>();
+    private refreshTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    // Secrets whose cached value was sent in reply to an expiry, so a repeated expiry refetches
+    private repliedFromCache = new Set<string>();
+    private isRefreshingAhead = false;
+
+    constructor(provider: SecretProvider, options: SecretRefreshOptions = {}) {
+        this.provider = provider;
+        this.options = {
+            refreshLeadMs: options.refreshLeadMs ?? 60000,
+            maxRetries: options.maxRetries ?? 3,
+            retryBaseDelayMs: options.retryBaseDelayMs ?? 1000,
+            timeoutMs: options.timeoutMs ?? 10000,
+        };
+    }
+
+    /**
+     * Fetch all of the provider's secretNames that are not cached yet, making a single attempt
+     * for each so that a slow provider holds up the chat for at most one timeout.
+     * Secrets that cannot be fetched are left out; the chat requests them again when needed,
+     * and those requests are retried.
+     */
+    async prefetch(): Promise<void> {
+        await Promise.all(
+            this.provider.secretNames
+                .filter(name => !this.isFresh(this.cache.get(name)))
+                .map(name => this.pendingFetches.get(name) ?? this.startFetch(name, 0))
+        );
+    }
+
+    /**
+     * Get a new value for a secret the chat reported as expired. A cached value that is known to
+     * still be valid, e.g. from a refresh ahead of expiry, is returned without fetching, unless
+     * it was already sent in reply to an earlier expiry.
+     * @param name - The name of the secret
+     */
+    getForExpiry(name: string): Promise<SecretExpiryResult> {
+        const cached = this.cache.get(name);
+        if (cached?.expiresAt != null && this.isFresh(cached) && !this.repliedFromCache.has(name)) {
+            this.repliedFromCache.add(name);
+            return Promise.resolve({ value: cached.value });
+        }
+        return this.refresh(name);
+    }
+
+    /**
+     * Get the cached values of all secrets that have not expired
+     */
+    getCachedSecrets(): Record<string, string> {
+        const secrets: Record<string, string> = {};
+        for (const [name, secret] of this.cache) {
+            if (secret.value != null && this.isFresh(secret)) {
+                secrets[name] = secret.value;
+            }
+        }
+        return secrets;
+    }
+
+    /**
+     * Fetch a secret from the provider, bypassing the cache. Concurrent requests for the same
+     * secret share a single fetch.
+     * @param name - The name of the secret
+     */
+    refresh(name: string): Promise<SecretExpiryResult> {
+        return this.pendingFetches.get(name) ?? this.startFetch(name, this.options.maxRetries);
+    }
+
+    /**
+     * Turn refreshing secrets ahead of their expiry on or off. Off by default, so that an agent
+     * whose chat is not shown does not keep fetching secrets.
+     * @param enabled - Whether to refresh secrets ahead of expiry
+     */
+    setRefreshAhead(enabled: boolean): void {
+        if (enabled === this.isRefreshingAhead) return;
+        this.isRefreshingAhead = enabled;
+        if (!enabled) {
+            this.refreshTimers.forEach(timer => clearTimeout(timer));
+            this.refreshTimers.clear();
+            return;
+        }
+        for (const [name, secret] of this.cache) {
+            // Secrets that entered their refresh window while refreshing was off are refreshed now
+            if (
+                secret.expiresAt != null &&
+                this.isFresh(secret) &&
+                !this.scheduleRefresh(name, secret)
+            ) {
+                this.refresh(name);
+            }
+        }
+    }
+
+    private startFetch(name: string, maxRetries: number): Promise<SecretExpiryResult> {
+        const pending = this.fetchWithRetry(name, maxRetries).finally(() =>
+            this.pendingFetches.delete(name)
+        );
+        this.pendingFetches.set(name, pending);
+        return pending;
+    }
+
+    private isFresh(secret: CachedSecret | undefined): boolean {
+        return secret != null && (secret.expiresAt == null || secret.expiresAt > Date.now());
+    }
+
+    private async fetchWithRetry(name: string, maxRetries: number): Promise<SecretExpiryResult> {
+        let result: SecretProviderResult = { error: "Secret was not fetched" };
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (attempt > 0) {
+                await delay(this.options.retryBaseDelayMs * 2 ** (attempt - 1));
+            }
+            try {
+                result = await withTimeout(this.provider.getSecret(name), this.options.timeoutMs);
+            } catch (error) {
+                result = { error: String(error) };
+            }
+            if (!("error" in result)) {
+                this.store(name, result);
+                return { value: result.value };
+            }
+        }
+        return result;
+    }
+
+    private store(name: string, secret: CachedSecret): void {
+        this.cache.set(name, secret);
+        this.repliedFromCache.delete(name);
+        this.scheduleRefresh(name, secret);
+    }
+
+    // Schedule refreshing a secret ahead of its expiry, returning whether a refresh was scheduled
+    private scheduleRefresh(name: string, secret: CachedSecret): boolean {
+        const existingTimer = this.refreshTimers.get(name);
+        if (existingTimer) {
+            clearTimeout(existingTimer);
+            this.refreshTimers.delete(name);
+        }
+        if (!this.isRefreshingAhead || secret.expiresAt == null) return false;
+
+        const refreshIn = secret.expiresAt - this.options.refreshLeadMs - Date.now();
+        if (refreshIn <= 0) return false;
+        this.refreshTimers.set(
+            name,
+            setTimeout(() => {
+                this.refreshTimers.delete(name);
+                this.refresh(name);
+            }, refreshIn)
+        );
+        return true;
+    }
+}
+
+/**
+ * Resolve with the promise's result, or reject if it does not settle within timeoutMs.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(
+            () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+            timeoutMs
+        );
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            error => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,28 @@
+// Copyright Sierra
+
+/**
+ * Interface for supplying the key used to encrypt persisted conversation state.
+ * Typically backed by the platform keychain or keystore.
+ */
+export interface StorageKeyProvider {
+    getKey(): Promise<string>;
+}
+
+/**
+ * Interface for a symmetric cipher applied to persisted conversation state.
+ * `decrypt` must reject when the ciphertext cannot be decrypted with the given key,
+ * for example after the key has been rotated. Ciphertext may have any format: the SDK marks the
+ * state it stores encrypted to tell it apart from state stored before encryption was enabled.
+ */
+export interface StorageCipher {
+    encrypt(plaintext: string, key: string): Promise<string>;
+    decrypt(ciphertext: string, key: string): Promise<string>;
+}
+
+/**
+ * Encryption at rest for PersistenceMode.DISK conversation storage.
+ */
+export interface StorageEncryption {
+    cipher: StorageCipher;
+    keyProvider: StorageKeyProvider;
+}
@@ -0,0 +1,106 @@
+// Copyright Sierra
+
+/**
+ * Current version of the state ConversationStorage writes through the StorageAdapter.
+ * Bump this and add a migration whenever the shape of the persisted state, or the keys the
+ * embed page stores in it, change.
+ */
+export const STORAGE_SCHEMA_VERSION = 1;
+
+/**
+ * Shape of the state written through the StorageAdapter
+ */
+export interface PersistedConversationState {
+    version: number;
+    values: Record<string, string>;
+    createdAt: number | null;
+    lastActiveAt: number | null;
+}
+
+/**
+ * A step that upgrades persisted state from one schema version to the next
+ */
+interface StorageMigration {
+    /** The version this migration upgrades from, producing `fromVersion + 1` */
+    fromVersion: number;
+    migrate(data: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Migrations in order of version. Each runs only when the persisted state is at its `fromVersion`.
+ */
+const migrations: StorageMigration[] = [
+    {
+        // Unversioned state was either a plain map of embed page values, or an envelope with
+        // activity timestamps but no version
+        fromVersion: 0,
+        migrate: data => {
+            if (isRecord(data.values)) {
+                return { ...data, version: 1 };
+            }
+            // Plain maps predate activity tracking, so count the conversation as active now
+            const now = Date.now();
+            return { version: 1, values: data, createdAt: now, lastActiveAt: now };
+        },
+    },
+];
+
+/**
+ * Error thrown when persisted state cannot be migrated to the current schema version
+ */
+export class StorageMigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "StorageMigrationError";
+    }
+}
+
+/**
+ * Upgrade persisted state of any known version to the current schema version.
+ * @param data - The parsed persisted state
+ * @returns The state at STORAGE_SCHEMA_VERSION
+ * @throws StorageMigrationError if the state is unreadable or from a newer version of the SDK
+ */
+export function migratePersistedState(data: unknown): PersistedConversationState {
+    if (!isRecord(data)) {
+        throw new StorageMigrationError("Persisted state is not an object");
+    }
+
+    let state = data;
+    let version = typeof state.version === "number" ? state.version : 0;
+    if (version > STORAGE_SCHEMA_VERSION) {
+        throw new StorageMigrationError(
+            `Persisted state has version ${version}, newer than supported version ${STORAGE_SCHEMA_VERSION}`
+        );
+    }
+
+    while (version < STORAGE_SCHEMA_VERSION) {
+        const migration = migrations.find(m => m.fromVersion === version);
+        if (!migration) {
+            throw new StorageMigrationError(`No migration from persisted state version ${version}`);
+        }
+        state = migration.migrate(state);
+        version = migration.fromVersion + 1;
+    }
+
+    return {
+        version,
+        values: isRecord(state.values) ? onlyStrings(state.values) : {},
+        createdAt: typeof state.createdAt === "number" ? state.createdAt : null,
+        lastActiveAt: typeof state.lastActiveAt === "number" ? state.lastActiveAt : null,
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function onlyStrings(values: Record<string, unknown>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+        if (typeof value === "string") {
+            result[key] = value;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,87 @@
+// Copyright Sierra
+
+import { BridgeErrorCode } from "./BridgeProtocol";
+
+/**
+ * Structured events describing the chat's performance and failures. Events identify the
+ * conversation they belong to, and never carry message content, variables or secrets.
+ */
+export type TelemetryEventData =
+    | {
+          /** The conversation's stored state finished loading from disk (PersistenceMode.DISK) */
+          name: "storageLoad";
+          conversationId: string;
+          durationMs: number;
+      }
+    | {
+          /** The WebView started loading the embed page */
+          name: "webViewLoadStart";
+          conversationId: string;
+          /** Number of the load since the view mounted, starting at 1 */
+          attempt: number;
+      }
+    | {
+          /** The WebView finished loading the embed page */
+          name: "webViewLoadEnd";
+          conversationId: string;
+          durationMs: number;
+      }
+    | {
+          /**
+           * The first agent message sent after the embed page started loading was shown.
+           * Messages restored from earlier in the conversation are not counted.
+           */
+          name: "firstAgentMessage";
+          conversationId: string;
+          /** Time since the embed page started loading */
+          durationMs: number;
+      }
+    | {
+          /** The embed page failed to load */
+          name: "webViewError";
+          conversationId: string;
+          type: "network" | "http";
+          /** The platform's network error code, or the HTTP status code */
+          code: number;
+      }
+    | {
+          /** A failed load is retried automatically */
+          name: "webViewLoadRetry";
+          conversationId: string;
+          attempt: number;
+          delayMs: number;
+      }
+    | {
+          /** The WebView's content process was terminated and the chat reloaded */
+          name: "webViewProcessTerminated";
+          conversationId: string;
+          platform: "ios" | "android";
+          didCrash?: boolean;
+      }
+    | {
+          /** A message from the embed page could not be handled */
+          name: "bridgeError";
+          conversationId: string;
+          code: BridgeErrorCode;
+          messageType?: string;
+      };
+
+/**
+ * A telemetry event, with the time it was recorded in milliseconds since the epoch
+ */
+export type TelemetryEvent = TelemetryEventData & { timestamp: number };
+
+export type TelemetryEventName = TelemetryEvent["name"];
+
+/**
+ * Interface for receiving telemetry events from an Agent, e.g. to forward them to an analytics
+ * service
+ */
+export interface AgentTelemetry {
+    /**
+     * Record an event. Called synchronously on the JS thread, so forward events asynchronously
+     * if that is expensive. Errors thrown are logged and otherwise ignored.
+     * @param event - The event
+     */
+    record(event: TelemetryEvent): void;
+}
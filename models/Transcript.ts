@@ -0,0 +1,168 @@
+// Copyright Sierra
+
+/**
+ * Who sent a transcript message
+ * - `user`: the user chatting with the agent
+ * - `assistant`: the virtual agent
+ * - `humanAgent`: a human agent the conversation was transferred to
+ * - `system`: status messages, such as an agent joining or leaving
+ */
+export type TranscriptRole = "user" | "assistant" | "humanAgent" | "system";
+
+export const TRANSCRIPT_ROLES: readonly TranscriptRole[] = [
+    "user",
+    "assistant",
+    "humanAgent",
+    "system",
+];
+
+/**
+ * A message in a conversation transcript
+ */
+export interface TranscriptMessage {
+    id: string;
+    role: TranscriptRole;
+    text: string;
+    /** When the message was sent, in milliseconds since the epoch */
+    timestamp: number;
+}
+
+/**
+ * Options for exporting a transcript as text or HTML
+ */
+export interface TranscriptExportOptions {
+    /** Title shown at the top of the export */
+    title?: string;
+
+    /** Labels for each role. Defaults to "You", "Assistant", "Agent" and "System". */
+    roleLabels?: Partial<Record<TranscriptRole, string>>;
+
+    /** Locale used to format timestamps. Defaults to the device locale. */
+    locale?: string;
+}
+
+/**
+ * A request from the user to print or save the conversation transcript
+ */
+export interface TranscriptRequest {
+    transcript: Transcript;
+
+    /**
+     * HTML rendering of the transcript, ready to pass to a PDF or share library. Provided by the
+     * chat when available, otherwise rendered with Transcript.exportHTML().
+     */
+    html: string;
+
+    /** Suggested file name, without an extension since the app chooses the format */
+    suggestedFilename: string;
+}
+
+const DEFAULT_ROLE_LABELS: Record<TranscriptRole, string> = {
+    user: "You",
+    assistant: "Assistant",
+    humanAgent: "Agent",
+    system: "System",
+};
+
+/**
+ * A snapshot of the messages exchanged in a conversation, with exporters for sharing it.
+ */
+export class Transcript {
+    readonly conversationId: string;
+    readonly messages: readonly TranscriptMessage[];
+
+    constructor(conversationId: string, messages: readonly TranscriptMessage[]) {
+        this.conversationId = conversationId;
+        this.messages = messages;
+    }
+
+    /**
+     * Export the transcript as JSON, e.g. to attach to a support ticket.
+     */
+    exportJSON(): string {
+        return JSON.stringify(
+            { conversationId: this.conversationId, messages: this.messages },
+            null,
+            2
+        );
+    }
+
+    /**
+     * Export the transcript as plain text, one message per paragraph.
+     */
+    exportText(options: TranscriptExportOptions = {}): string {
+        const lines = this.messages.map(
+            message =>
+                `[${formatTimestamp(message.timestamp, options.locale)}] ` +
+                `${roleLabel(message.role, options)}: ${message.text}`
+        );
+        if (options.title) {
+            lines.unshift(options.title);
+        }
+        return lines.join("\n\n");
+    }
+
+    /**
+     * Export the transcript as a standalone HTML document, suitable for printing to PDF or sharing.
+     */
+    exportHTML(options: TranscriptExportOptions = {}): string {
+        const title = escapeHTML(options.title ?? "Chat transcript");
+        const messages = this.messages
+            .map(message => {
+                const label =
+                    `${roleLabel(message.role, options)} · ` +
+                    formatTimestamp(message.timestamp, options.locale);
+                return `
+    <div class="message ${message.role}">
+      <div class="label">${escapeHTML(label)}</div>
+      <div class="text">${escapeHTML(message.text)}</div>
+    </div>`;
+            })
+            .join("");
+
+        return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${title}</title>
+    <style>
+      body { font-family: -apple-system, Roboto, sans-serif; margin: 24px; color: #1a1a1a; }
+      .message { margin-bottom: 16px; }
+      .label { font-size: 12px; color: #666; margin-bottom: 4px; }
+      .text { font-size: 14px; white-space: pre-wrap; }
+      .user .text { font-weight: 500; }
+    </style>
+  </head>
+  <body>
+    <h1>${title}</h1>${messages}
+  </body>
+</html>
+`;
+    }
+}
+
+/**
+ * Suggest a file name for a transcript saved at the given time, e.g. "chat-transcript-2026-01-31".
+ */
+export function suggestTranscriptFilename(date: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `chat-transcript-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function roleLabel(role: TranscriptRole, options: TranscriptExportOptions): string {
+    return options.roleLabels?.[role] ?? DEFAULT_ROLE_LABELS[role];
+}
+
+function formatTimestamp(timestamp: number, locale?: string): string {
+    return new Date(timestamp).toLocaleString(locale);
+}
+
+function escapeHTML(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
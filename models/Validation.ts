@@ -0,0 +1,210 @@
+// Copyright Sierra
+
+import { AgentConfig } from "./AgentConfig";
+import { ChatOptions } from "./ChatOptions";
+import { ChatStyleColors, isValidColor, isValidSize } from "./ChatStyle";
+import { buildEmbedUrl } from "./EmbedUrl";
+import { localizeChatOptions, resolveLocale } from "./Localization";
+
+/**
+ * How serious a setup issue is
+ * - `error`: the chat will not work as intended, e.g. it fails to load or drops configuration
+ * - `warning`: the chat works, but some configuration is ignored or may break on some devices
+ */
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * Kinds of setup issues
+ * - `invalidToken`: the agent token is empty or contains characters not allowed in a URL path
+ * - `invalidLocale`: a locale is not a well-formed BCP 47 language tag
+ * - `invalidColor`: a chat style color is not a CSS color, and is ignored
+ * - `invalidSize`: a chat style size is negative or not a finite number, and is ignored
+ * - `invalidVariableName`: a variable name is empty or contains ":"
+ * - `invalidSecretName`: a secret name is empty or contains ":"
+ * - `invalidEmbedUrl`: config.transformEmbedUrl does not return an http or https URL
+ * - `urlTooLong`: the embed URL may exceed the length some servers and WebViews accept
+ */
+export type ValidationIssueCode =
+    | "invalidToken"
+    | "invalidLocale"
+    | "invalidColor"
+    | "invalidSize"
+    | "invalidVariableName"
+    | "invalidSecretName"
+    | "invalidEmbedUrl"
+    | "urlTooLong";
+
+/**
+ * A problem found in an agent's configuration
+ */
+export interface ValidationIssue {
+    severity: ValidationSeverity;
+    code: ValidationIssueCode;
+    /** Where the problem is, e.g. "options.chatStyle.colors.background" */
+    path: string;
+    message: string;
+}
+
+/**
+ * Embed URLs longer than this may be rejected by servers and proxies
+ */
+export const MAX_EMBED_URL_LENGTH = 8000;
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]+$/;
+const LOCALE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/;
+
+/**
+ * Check an agent's configuration for problems that would otherwise only show up as a broken chat.
+ * The Agent constructor runs this in development builds and logs the issues it finds.
+ * @param config - The agent configuration
+ * @param options - The chat options
+ * @param embedUrl - The embed URL when already built, e.g. from Agent.getEmbedUrl(). Otherwise
+ * it is built from the configuration, for each color scheme.
+ * @returns The issues found, empty if the configuration is valid
+ */
+export function validateAgentSetup(
+    config: AgentConfig,
+    options: ChatOptions,
+    embedUrl?: string
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (!TOKEN_PATTERN.test(config.token)) {
+        issues.push({
+            severity: "error",
+            code: "invalidToken",
+            path: "config.token",
+            message:
+                config.token === ""
+                    ? "Token is empty"
+                    : "Token must only contain letters, digits, '-' and '_'",
+        });
+    }
+
+    const conversationOptions = options.conversationOptions ?? {};
+    const locales: [string, string | undefined][] = [
+        ["options.conversationOptions.locale", conversationOptions.locale],
+        ["options.fallbackLocale", options.fallbackLocale],
+        ...Object.keys(options.localizedStrings ?? {}).map((tag): [string, string] => [
+            `options.localizedStrings.${tag}`,
+            tag,
+        ]),
+    ];
+    for (const [path, locale] of locales) {
+        if (locale !== undefined && !isValidLocale(locale)) {
+            issues.push({
+                severity: "error",
+                code: "invalidLocale",
+                path,
+                message: `${JSON.stringify(locale)} is not a valid BCP 47 language tag, e.g. "fr-CA"`,
+            });
+        }
+    }
+
+    const { chatStyle } = options;
+    const palettes: [string, ChatStyleColors | undefined][] = [
+        ["colors", chatStyle?.colors],
+        ["light", chatStyle?.light],
+        ["dark", chatStyle?.dark],
+    ];
+    for (const [palette, colors] of palettes) {
+        for (const [name, value] of Object.entries(colors ?? {})) {
+            if (value !== undefined && !isValidColor(value)) {
+                issues.push({
+                    severity: "warning",
+                    code: "invalidColor",
+                    path: `options.chatStyle.${palette}.${name}`,
+                    message: `${JSON.stringify(value)} is not a CSS color and is ignored`,
+                });
+            }
+        }
+    }
+
+    const sizeGroups: [string, object | undefined][] = [
+        ["typography", chatStyle?.typography],
+        ["radii", chatStyle?.radii],
+        ["spacing", chatStyle?.spacing],
+    ];
+    for (const [group, sizes] of sizeGroups) {
+        for (const [name, value] of Object.entries(sizes ?? {})) {
+            if (typeof value === "number" && !isValidSize(value)) {
+                issues.push({
+                    severity: "warning",
+                    code: "invalidSize",
+                    path: `options.chatStyle.${group}.${name}`,
+                    message: `${value} is not a non-negative number of pixels and is ignored`,
+                });
+            }
+        }
+    }
+
+    // Variables are encoded as "name:value" in the embed URL
+    for (const name of Object.keys(conversationOptions.variables ?? {})) {
+        if (name === "" || name.includes(":")) {
+            issues.push({
+                severity: "error",
+                code: "invalidVariableName",
+                path: `options.conversationOptions.variables.${name}`,
+                message: "Variable names must be non-empty and must not contain ':'",
+            });
+        }
+    }
+    for (const name of Object.keys(conversationOptions.secrets ?? {})) {
+        if (name === "" || name.includes(":")) {
+            issues.push({
+                severity: "error",
+                code: "invalidSecretName",
+                path: `options.conversationOptions.secrets.${name}`,
+                message: "Secret names must be non-empty and must not contain ':'",
+            });
+        }
+    }
+
+    if (embedUrl === undefined) {
+        try {
+            embedUrl = buildLongestEmbedUrl(config, options);
+        } catch (error) {
+            issues.push({
+                severity: "error",
+                code: "invalidEmbedUrl",
+                path: "config.transformEmbedUrl",
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+    if (embedUrl !== undefined && embedUrl.length > MAX_EMBED_URL_LENGTH) {
+        issues.push({
+            severity: options.injectConfiguration ? "error" : "warning",
+            code: "urlTooLong",
+            path: "options",
+            message:
+                `Embed URL is ${embedUrl.length} characters, longer than ${MAX_EMBED_URL_LENGTH}. ` +
+                (options.injectConfiguration
+                    ? "Use fewer chat options."
+                    : "Set injectConfiguration to keep the chat style and variables out of the URL."),
+        });
+    }
+
+    return issues;
+}
+
+// The chat style differs in length between color schemes, so build the longer URL
+function buildLongestEmbedUrl(config: AgentConfig, options: ChatOptions): string {
+    const locale = resolveLocale(options);
+    const localized = localizeChatOptions(options, locale);
+    const light = buildEmbedUrl(config, localized, locale, "light");
+    const dark = buildEmbedUrl(config, localized, locale, "dark");
+    return dark.length > light.length ? dark : light;
+}
+
+function isValidLocale(locale: string): boolean {
+    if (typeof Intl !== "undefined" && typeof Intl.getCanonicalLocales === "function") {
+        try {
+            Intl.getCanonicalLocales(locale);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+    return LOCALE_PATTERN.test(locale);
+}